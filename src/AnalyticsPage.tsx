@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  SESSION_GAP_MS,
+  formatDuration,
+  formatPercent,
+  sessionReport,
+  splitSessions,
+  summarizeSession,
+} from "./analytics";
+import { useAuth } from "./auth";
+import { downloadFile, loadEvents, type EventRecord } from "./eventHistory";
+import RankingChart from "./RankingChart";
+import TimeSeriesChart from "./TimeSeriesChart";
+
+// The dashboard writes history in its own tab; poll to stay current.
+const REFRESH_MS = 15000;
+
+function AnalyticsPage() {
+  const auth = useAuth();
+  const [events, setEvents] = useState<EventRecord[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [channel, setChannel] = useState<string>("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    loadEvents()
+      .then((stored) => {
+        setEvents(stored);
+        setLoadError(null);
+      })
+      .catch((error: Error) => setLoadError(error.message));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const channelNames = useMemo(() => {
+    const names: Record<string, string> =
+      auth.status === "signed-in"
+        ? Object.fromEntries(
+            auth.session.channels.map((item) => [item.id, item.displayName])
+          )
+        : {};
+    events.forEach((event) => {
+      if (event.channel && !names[event.channel]) {
+        names[event.channel] = event.channel;
+      }
+    });
+    return names;
+  }, [auth, events]);
+
+  const sessions = useMemo(
+    () =>
+      splitSessions(
+        channel ? events.filter((event) => event.channel === channel) : events
+      ),
+    [events, channel]
+  );
+  const selected =
+    sessions.find((session) => session.id === selectedId) ?? sessions[0];
+  const summary = useMemo(
+    () => (selected ? summarizeSession(selected) : null),
+    [selected]
+  );
+  const live =
+    selected === sessions[0] &&
+    selected !== undefined &&
+    Date.now() - selected.end.getTime() < SESSION_GAP_MS;
+
+  const exportReport = (format: "md" | "json") => {
+    if (!summary) return;
+    const stamp = summary.start.toISOString().slice(0, 16).replace(/:/g, "-");
+    if (format === "md") {
+      downloadFile(
+        `hlp-report-${stamp}.md`,
+        sessionReport(summary),
+        "text/markdown"
+      );
+    } else {
+      downloadFile(
+        `hlp-report-${stamp}.json`,
+        JSON.stringify(summary, null, 2),
+        "application/json"
+      );
+    }
+  };
+
+  return (
+    <div className="app">
+      <header className="header">
+        <div className="header-content">
+          <h1 className="title">
+            <span className="title-icon">📈</span>
+            Analytics
+          </h1>
+          <div className="header-actions">
+            {Object.keys(channelNames).length > 1 && (
+              <select
+                className="select-input channel-select"
+                value={channel}
+                onChange={(e) => {
+                  setChannel(e.target.value);
+                  setSelectedId(null);
+                }}
+                aria-label="Channel"
+              >
+                <option value="">All channels</option>
+                {Object.entries(channelNames).map(([id, name]) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button className="small-button" onClick={refresh}>
+              Refresh
+            </button>
+            <div className="nav-links">
+              <a href="/" className="nav-link">
+                Dashboard
+              </a>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="main">
+        <div className="analytics">
+          {loadError && (
+            <div className="settings-message">
+              Could not read the event history: {loadError}
+            </div>
+          )}
+
+          {!selected || !summary ? (
+            <div className="control-card">
+              <div className="no-events">
+                No events recorded yet. Keep the dashboard open during a
+                stream to collect data.
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="analytics-session-header">
+                <h2>
+                  {live && <span className="live-pill">Live</span>}
+                  {summary.start.toLocaleString()} ·{" "}
+                  {formatDuration(summary.durationMs)}
+                </h2>
+                <div className="events-actions">
+                  <button
+                    className="small-button"
+                    onClick={() => exportReport("md")}
+                  >
+                    Export Report
+                  </button>
+                  <button
+                    className="small-button"
+                    onClick={() => exportReport("json")}
+                  >
+                    JSON
+                  </button>
+                </div>
+              </div>
+
+              <div className="stats-grid">
+                <div className="stat-card">
+                  <div className="stat-value">{summary.redemptions}</div>
+                  <div className="stat-label">Redemptions</div>
+                </div>
+                <div className="stat-card">
+                  <div className="stat-value">{summary.uniqueRedeemers}</div>
+                  <div className="stat-label">Redeemers</div>
+                </div>
+                <div className="stat-card">
+                  <div className="stat-value">
+                    {formatPercent(summary.failureRate)}
+                  </div>
+                  <div className="stat-label">
+                    Failure Rate ({summary.failures}/{summary.plays})
+                  </div>
+                </div>
+                <div className="stat-card">
+                  <div className="stat-value">
+                    {summary.durationMs > 0
+                      ? (
+                          summary.redemptions /
+                          Math.max(1, summary.durationMs / 60000)
+                        ).toFixed(2)
+                      : summary.redemptions}
+                  </div>
+                  <div className="stat-label">Per Minute</div>
+                </div>
+              </div>
+
+              <section className="control-card">
+                <h3>Redemptions per Minute</h3>
+                <TimeSeriesChart
+                  buckets={summary.perMinute}
+                  label="Redemptions per minute"
+                />
+              </section>
+
+              <div className="analytics-columns">
+                <section className="control-card">
+                  <h3>Top Rewards</h3>
+                  <RankingChart entries={summary.topRewards} />
+                </section>
+                <section className="control-card">
+                  <h3>Top Redeemers</h3>
+                  <RankingChart entries={summary.topRedeemers} />
+                </section>
+              </div>
+            </>
+          )}
+
+          {sessions.length > 0 && (
+            <section className="control-card">
+              <h3>Sessions</h3>
+              <table className="sessions-table">
+                <thead>
+                  <tr>
+                    <th>Start</th>
+                    <th>Duration</th>
+                    <th>Redemptions</th>
+                    <th>Failure Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((session) => {
+                    const row = summarizeSession(session);
+                    return (
+                      <tr
+                        key={session.id}
+                        className={session === selected ? "selected" : ""}
+                        onClick={() => setSelectedId(session.id)}
+                      >
+                        <td>{row.start.toLocaleString()}</td>
+                        <td>{formatDuration(row.durationMs)}</td>
+                        <td>{row.redemptions}</td>
+                        <td>{formatPercent(row.failureRate)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default AnalyticsPage;
@@ -1,308 +1,18 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useState, type ReactNode } from "react";
 import "./App.css";
-
-interface EventRecord {
-  id: string;
-  type: string;
-  timestamp: Date;
-  data?: unknown;
-  description: string;
-}
-
-const apiBase = import.meta.env.VITE_API_BASE_URL || 
-  (window.location.hostname === "localhost" || window.location.hostname === "127.0.0.1" 
-    ? "http://localhost:8787" 
-    : "https://hlp-api.onrender.com");
-
-function Dashboard() {
-  const [status, setStatus] = useState<
-    "disconnected" | "connecting" | "connected"
-  >("disconnected");
-  const [events, setEvents] = useState<EventRecord[]>([]);
-  const [volume, setVolume] = useState<number>(0.7);
-  const [muted, setMuted] = useState<boolean>(false);
-  const [connectedAt, setConnectedAt] = useState<Date | null>(null);
-  const [eventCount, setEventCount] = useState<number>(0);
-  const [soundsPlayed, setSoundsPlayed] = useState<number>(0);
-  const [toast, setToast] = useState<{ username: string; rewardName: string } | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  console.log("🌐 Broadcaster Suite API Base:", apiBase);
-
-  
-
-  const addEvent = (type: string, description: string, data?: unknown) => {
-    const event: EventRecord = {
-      id: Date.now().toString(),
-      type,
-      timestamp: new Date(),
-      data,
-      description,
-    };
-    setEvents((prev) => [event, ...prev.slice(0, 99)]); // Keep last 100 events
-    setEventCount((prev) => prev + 1);
-  };
-
-  const getStatusColor = () => {
-    switch (status) {
-      case "connected":
-        return "#22c55e";
-      case "connecting":
-        return "#f59e0b";
-      case "disconnected":
-        return "#f87171";
-    }
-  };
-
-  const getStatusIcon = () => {
-    switch (status) {
-      case "connected":
-        return "●";
-      case "connecting":
-        return "◐";
-      case "disconnected":
-        return "○";
-    }
-  };
-
-  const formatUptime = useMemo(() => {
-    return () => {
-      if (!connectedAt) return "00:00:00";
-      const diff = Date.now() - connectedAt.getTime();
-      const hours = Math.floor(diff / (1000 * 60 * 60));
-      const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-      const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-      return `${hours.toString().padStart(2, "0")}:${minutes
-        .toString()
-        .padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
-    };
-  }, [connectedAt]);
-
-  const [uptime, setUptime] = useState("00:00:00");
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setUptime(formatUptime());
-    }, 1000);
-    return () => clearInterval(interval);
-  }, [formatUptime]);
-
-  useEffect(() => {
-    setStatus("connecting");
-    addEvent("system", "Connecting to server...");
-
-    const es = new EventSource(`${apiBase}/events`);
-
-    es.onopen = () => {
-      setStatus("connected");
-      setConnectedAt(new Date());
-      addEvent("connection", "Connected to server");
-    };
-
-    es.addEventListener("connected", () => {
-      setStatus("connected");
-      setConnectedAt(new Date());
-      addEvent("connection", "Server connection established");
-    });
-
-    es.addEventListener("play-sound", (e: MessageEvent) => {
-      try {
-        const payload = JSON.parse(e.data) as { src: string; filename: string; username?: string; rewardName?: string };
-        addEvent("sound", `Playing: ${payload.filename}`, payload);
-        setSoundsPlayed((prev) => prev + 1);
-
-        if (!muted) {
-          const audio = audioRef.current ?? new Audio();
-          audioRef.current = audio;
-          audio.volume = volume;
-          audio.src = `${apiBase}${payload.src}`;
-          audio.play().catch(() => {
-            addEvent("error", `Failed to play: ${payload.filename}`);
-          });
-        }
-
-        // Show toast if username and reward name are provided
-        if (payload.username && payload.rewardName) {
-          setToast({ username: payload.username, rewardName: payload.rewardName });
-          setTimeout(() => setToast(null), 5000);
-        }
-      } catch {
-        addEvent("error", "Failed to parse sound event");
-      }
-    });
-
-    es.onerror = (e: Event) => {
-      console.error("EventSource error", e);
-      setStatus("connecting");
-      addEvent("error", "Connection lost, attempting to reconnect...");
-    };
-
-    return () => {
-      es.close();
-      addEvent("system", "Disconnected from server");
-    };
-  }, [volume, muted]);
-
-  const clearHistory = () => {
-    setEvents([]);
-    setEventCount(0);
-    setSoundsPlayed(0);
-  };
-
-  return (
-    <div className="app">
-      <header className="header">
-        <div className="header-content">
-          <h1 className="title">
-            <span className="title-icon">🎵</span>
-            HLP Broadcaster Suite
-          </h1>
-          <div className="header-actions">
-            <div className="status-badge" style={{ color: getStatusColor() }}>
-              <span className="status-icon">{getStatusIcon()}</span>
-              {status}
-            </div>
-            <div className="nav-links">
-              <a href="/tos" className="nav-link">
-                Terms of Service
-              </a>
-              <a href="/privacy" className="nav-link">
-                Privacy Policy
-              </a>
-              <a href="/video" className="nav-link">
-                Video Overlay
-              </a>
-            </div>
-          </div>
-        </div>
-      </header>
-
-      <main className="main">
-        <div className="dashboard">
-          <div className="controls-section">
-            <div className="control-card">
-              <h3>Audio Controls</h3>
-              <div className="audio-controls">
-                <div className="volume-control">
-                  <label>Volume</label>
-                  <div className="volume-slider-container">
-                    <input
-                      type="range"
-                      className="volume-slider"
-                      min={0}
-                      max={1}
-                      step={0.05}
-                      value={volume}
-                      onChange={(e) => setVolume(Number(e.target.value))}
-                      disabled={muted}
-                    />
-                    <span className="volume-value">
-                      {Math.round(volume * 100)}%
-                    </span>
-                  </div>
-                </div>
-                <button
-                  className={`mute-button ${muted ? "muted" : ""}`}
-                  onClick={() => setMuted(!muted)}
-                >
-                  {muted ? "🔇" : "🔊"}
-                </button>
-              </div>
-            </div>
-
-            <div className="stats-grid">
-              <div className="stat-card">
-                <div className="stat-value">{uptime}</div>
-                <div className="stat-label">Uptime</div>
-              </div>
-              <div className="stat-card">
-                <div className="stat-value">{eventCount}</div>
-                <div className="stat-label">Total Events</div>
-              </div>
-              <div className="stat-card">
-                <div className="stat-value">{soundsPlayed}</div>
-                <div className="stat-label">Sounds Played</div>
-              </div>
-            </div>
-          </div>
-
-          <div className="events-section">
-            <div className="events-header">
-              <h3>Event History</h3>
-              <button className="clear-button" onClick={clearHistory}>
-                Clear History
-              </button>
-            </div>
-            <div className="events-container">
-              {events.length === 0 ? (
-                <div className="no-events">No events yet...</div>
-              ) : (
-                events.map((event) => (
-                  <div
-                    key={event.id}
-                    className={`event-item event-${event.type}`}
-                  >
-                    <div className="event-time">
-                      {event.timestamp.toLocaleTimeString()}
-                    </div>
-                    <div className="event-content">
-                      <div className="event-type">{event.type}</div>
-                      <div className="event-description">
-                        {event.description}
-                      </div>
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
-          </div>
-        </div>
-      </main>
-
-      <audio ref={audioRef} />
-      
-      {/* Toast notification */}
-      {toast && (
-        <div
-          style={{
-            position: "fixed",
-            top: "20px",
-            left: "50%",
-            transform: "translateX(-50%)",
-            background: "rgba(0, 0, 0, 0.8)",
-            color: "white",
-            padding: "12px 24px",
-            borderRadius: "8px",
-            fontSize: "18px",
-            fontWeight: "bold",
-            textAlign: "center",
-            zIndex: 10000,
-            boxShadow: "0 4px 12px rgba(0, 0, 0, 0.3)",
-            border: "2px solid #9146ff",
-            animation: "fadeInOut 5s ease-in-out",
-          }}
-        >
-          <div style={{ fontSize: "16px", marginBottom: "4px" }}>
-            {toast.username}
-          </div>
-          <div style={{ fontSize: "14px", opacity: 0.9 }}>
-            redeemed: {toast.rewardName}
-          </div>
-        </div>
-      )}
-      
-      <style>
-        {`
-          @keyframes fadeInOut {
-            0% { opacity: 0; transform: translateX(-50%) translateY(-10px); }
-            5% { opacity: 1; transform: translateX(-50%) translateY(0); }
-            95% { opacity: 1; transform: translateX(-50%) translateY(0); }
-            100% { opacity: 0; transform: translateX(-50%) translateY(-10px); }
-          }
-        `}
-      </style>
-    </div>
-  );
-}
+import {
+  completeLogin,
+  startLogin,
+  useAuth,
+  type Session,
+  type SignedOutReason,
+} from "./auth";
+import { overlayRoutes } from "./overlays";
+import Dashboard from "./Dashboard";
+import SettingsPage from "./SettingsPage";
+import AnalyticsPage from "./AnalyticsPage";
+import MultiChannelDashboard from "./MultiChannelDashboard";
+import VideoOverlay from "./overlays/VideoOverlay";
 
 function TermsOfService() {
   return (
@@ -825,165 +535,170 @@ function PrivacyPolicy() {
   );
 }
 
-function VideoOverlay() {
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const muted = true;
-  const volume = 1;
-  const [visible, setVisible] = useState<boolean>(false);
-  const [toast, setToast] = useState<{ username: string; rewardName: string } | null>(null);
+function NotFound() {
+  return (
+    <div className="app">
+      <header className="header">
+        <div className="header-content">
+          <h1 className="title">
+            <span className="title-icon">🧭</span>
+            Page Not Found
+          </h1>
+          <div className="header-actions">
+            <div className="nav-links">
+              <a href="/" className="nav-link">
+                Dashboard
+              </a>
+            </div>
+          </div>
+        </div>
+      </header>
 
-  useEffect(() => {
-    const es = new EventSource(`${apiBase}/events`);
-
-    const playVideo = (src: string, username?: string, rewardName?: string) => {
-      const el = videoRef.current;
-      if (!el) return;
-      
-      // Reset any existing playback and source to avoid freezing last frame
-      try {
-        el.pause();
-      } catch {
-        /* noop */
-      }
-      el.removeAttribute("src");
-      el.load();
-      el.src = `${apiBase}${src}`;
-      el.muted = muted;
-      el.volume = volume;
-      setVisible(true);
-      el.play().catch(() => undefined);
-
-      // Show toast if username and reward name are provided
-      if (username && rewardName) {
-        setToast({ username, rewardName });
-        setTimeout(() => setToast(null), 5000);
-      }
-    };
-
-    es.onopen = () => undefined;
-    es.addEventListener("connected", () => undefined);
-    es.addEventListener("play-video", (e: MessageEvent) => {
-      try {
-        const payload = JSON.parse(e.data) as { src: string; username?: string; rewardName?: string };
-        playVideo(payload.src, payload.username, payload.rewardName);
-      } catch {
-        /* noop */
-      }
-    });
-    es.onerror = () => undefined;
-
-    return () => es.close();
-  }, [muted, volume]);
+      <main className="main">
+        <div className="legal-container">
+          <div className="legal-content">
+            <div className="legal-section">
+              <h2>Nothing lives at {window.location.pathname}</h2>
+              <p>Check the address, or use one of the available pages:</p>
+              <ul>
+                <li>
+                  <a href="/" className="inline-link">
+                    Dashboard
+                  </a>
+                </li>
+                {Object.keys(overlayRoutes).map((name) => (
+                  <li key={name}>
+                    <a href={`/overlay/${name}`} className="inline-link">
+                      /overlay/{name}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
 
+const signedOutMessages: Record<SignedOutReason, string> = {
+  expired: "Your session expired. Sign in again to keep receiving events.",
+  revoked: "Your session is no longer valid. Sign in again to continue.",
+  "signed-out": "You have been signed out.",
+};
+
+function SignIn({ reason }: { reason: SignedOutReason | null }) {
   return (
-    <div
-      style={{
-        width: "100vw",
-        height: "100vh",
-        background: "transparent",
-        overflow: "hidden",
-        position: "fixed",
-        top: 0,
-        left: 0,
-        zIndex: 9999,
-      }}
-    >
-      <video
-        ref={videoRef}
-        style={{
-          width: "100%",
-          height: "100%",
-          objectFit: "contain",
-          opacity: visible ? 1 : 0,
-          transition: "opacity 150ms ease-in-out",
-        }}
-        playsInline
-        muted={muted}
-        onEnded={() => {
-          const el = videoRef.current;
-          if (el) {
-            try {
-              el.pause();
-            } catch {
-              /* noop */
-            }
-            el.removeAttribute("src");
-            el.load();
-          }
-          setVisible(false);
-        }}
-        onError={() => {
-          const el = videoRef.current;
-          if (el) {
-            try {
-              el.pause();
-            } catch {
-              /* noop */
-            }
-            el.removeAttribute("src");
-            el.load();
-          }
-          setVisible(false);
-        }}
-      />
-      
-      {/* Toast notification */}
-      {toast && (
-        <div
-          style={{
-            position: "absolute",
-            top: "20px",
-            left: "50%",
-            transform: "translateX(-50%)",
-            background: "rgba(0, 0, 0, 0.8)",
-            color: "white",
-            padding: "12px 24px",
-            borderRadius: "8px",
-            fontSize: "18px",
-            fontWeight: "bold",
-            textAlign: "center",
-            zIndex: 10000,
-            boxShadow: "0 4px 12px rgba(0, 0, 0, 0.3)",
-            border: "2px solid #9146ff",
-            animation: "fadeInOut 5s ease-in-out",
-          }}
-        >
-          <div style={{ fontSize: "16px", marginBottom: "4px" }}>
-            {toast.username}
-          </div>
-          <div style={{ fontSize: "14px", opacity: 0.9 }}>
-            redeemed: {toast.rewardName}
+    <div className="app">
+      <header className="header">
+        <div className="header-content">
+          <h1 className="title">
+            <span className="title-icon">🎵</span>
+            HLP Broadcaster Suite
+          </h1>
+        </div>
+      </header>
+
+      <main className="main">
+        <div className="legal-container">
+          <div className="legal-content sign-in">
+            <div className="legal-section">
+              <h2>Sign in</h2>
+              {reason && (
+                <p className="sign-in-reason">{signedOutMessages[reason]}</p>
+              )}
+              <p>
+                Sign in with the Twitch account of the broadcaster, or of a
+                moderator the broadcaster has added, to see their redemptions.
+              </p>
+              <button className="replay-button" onClick={startLogin}>
+                Sign in with Twitch
+              </button>
+            </div>
           </div>
         </div>
-      )}
-      
-      <style>
-        {`
-          @keyframes fadeInOut {
-            0% { opacity: 0; transform: translateX(-50%) translateY(-10px); }
-            5% { opacity: 1; transform: translateX(-50%) translateY(0); }
-            95% { opacity: 1; transform: translateX(-50%) translateY(0); }
-            100% { opacity: 0; transform: translateX(-50%) translateY(-10px); }
-          }
-        `}
-      </style>
+      </main>
     </div>
   );
 }
 
+function AuthCallback() {
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const hash = window.location.hash;
+    // Drop the token from the address bar and history straight away.
+    window.history.replaceState(null, "", window.location.pathname);
+    completeLogin(hash)
+      .then(() => window.location.replace("/"))
+      .catch((error: Error) => setError(error.message));
+  }, []);
+
+  if (!error) return <div className="auth-callback">Signing in...</div>;
+  return (
+    <div className="auth-callback">
+      <p>{error}</p>
+      <button className="replay-button" onClick={startLogin}>
+        Try again
+      </button>
+    </div>
+  );
+}
+
+/** Shows the sign-in page until there is a session for `render`. */
+function SignedIn({ render }: { render: (session: Session) => ReactNode }) {
+  const auth = useAuth();
+  if (auth.status !== "signed-in") return <SignIn reason={auth.reason} />;
+  return render(auth.session);
+}
+
 function App() {
   const pathname =
-    typeof window !== "undefined" ? window.location.pathname : "/";
-  if (pathname === "/video") {
-    return <VideoOverlay />;
-  }
-  if (pathname === "/tos") {
-    return <TermsOfService />;
+    typeof window !== "undefined"
+      ? window.location.pathname.replace(/\/+$/, "") || "/"
+      : "/";
+
+  const overlayMatch = /^\/overlay\/([^/]+)$/.exec(pathname);
+  if (overlayMatch) {
+    const name = overlayMatch[1];
+    if (!Object.hasOwn(overlayRoutes, name)) return <NotFound />;
+    const Overlay = overlayRoutes[name];
+    return <Overlay />;
   }
-  if (pathname === "/privacy") {
-    return <PrivacyPolicy />;
+
+  switch (pathname) {
+    case "/":
+      return (
+        <SignedIn
+          // Remount per channel so queues, counters and the stream start fresh.
+          render={(session) => (
+            <Dashboard key={session.channelId} session={session} />
+          )}
+        />
+      );
+    case "/channels":
+      return (
+        <SignedIn
+          render={(session) => <MultiChannelDashboard session={session} />}
+        />
+      );
+    case "/auth/callback":
+      return <AuthCallback />;
+    // Kept so existing OBS scenes pointing at the old URL keep working.
+    case "/video":
+      return <VideoOverlay />;
+    case "/settings":
+      return <SettingsPage />;
+    case "/analytics":
+      return <AnalyticsPage />;
+    case "/tos":
+      return <TermsOfService />;
+    case "/privacy":
+      return <PrivacyPolicy />;
+    default:
+      return <NotFound />;
   }
-  return <Dashboard />;
 }
 
 export default App;
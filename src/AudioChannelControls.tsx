@@ -0,0 +1,113 @@
+import { useState } from "react";
+import {
+  audioChannelNames,
+  requestDeviceLabels,
+  useOutputDevices,
+  type AudioChannelName,
+} from "./audio";
+import { updateChannel, useSettings } from "./settings";
+
+const channelLabels: Record<AudioChannelName, string> = {
+  stream: "Stream",
+  monitor: "Monitor",
+};
+
+const setSinkIdSupported =
+  typeof HTMLMediaElement !== "undefined" &&
+  "setSinkId" in HTMLMediaElement.prototype;
+
+function AudioChannelControls() {
+  const { channels } = useSettings();
+  const { devices, refresh } = useOutputDevices();
+  const [labelError, setLabelError] = useState<string | null>(null);
+  const missingLabels = devices.some((device) => !device.label);
+
+  const showDeviceNames = () => {
+    setLabelError(null);
+    requestDeviceLabels()
+      .then(refresh)
+      .catch(() => setLabelError("Microphone permission was denied"));
+  };
+
+  return (
+    <div className="audio-controls">
+      {audioChannelNames.map((name) => {
+        const channel = channels[name];
+        // Keep an unplugged device selected so playback moves back to it
+        // once it is reconnected.
+        const disconnected =
+          channel.deviceId !== "" &&
+          devices.length > 0 &&
+          !devices.some((device) => device.deviceId === channel.deviceId);
+
+        return (
+          <div key={name} className="channel-control">
+            <div className="channel-header">
+              <label>{channelLabels[name]}</label>
+              <button
+                className={`mute-button ${channel.muted ? "muted" : ""}`}
+                onClick={() => updateChannel(name, { muted: !channel.muted })}
+                aria-label={`${channel.muted ? "Unmute" : "Mute"} ${name}`}
+              >
+                {channel.muted ? "🔇" : "🔊"}
+              </button>
+            </div>
+            <div className="volume-slider-container">
+              <input
+                type="range"
+                className="volume-slider"
+                min={0}
+                max={1}
+                step={0.05}
+                value={channel.volume}
+                onChange={(e) =>
+                  updateChannel(name, { volume: Number(e.target.value) })
+                }
+                disabled={channel.muted}
+              />
+              <span className="volume-value">
+                {Math.round(channel.volume * 100)}%
+              </span>
+            </div>
+            {setSinkIdSupported && (
+              <select
+                className="select-input"
+                value={channel.deviceId}
+                onChange={(e) =>
+                  updateChannel(name, { deviceId: e.target.value })
+                }
+              >
+                <option value="">System default</option>
+                {devices.map((device, index) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Output ${index + 1}`}
+                  </option>
+                ))}
+                {disconnected && (
+                  <option value={channel.deviceId}>
+                    Disconnected device (using default)
+                  </option>
+                )}
+              </select>
+            )}
+          </div>
+        );
+      })}
+
+      {!setSinkIdSupported && (
+        <div className="channel-note">
+          This browser cannot pick output devices; both channels use the
+          system default.
+        </div>
+      )}
+      {setSinkIdSupported && missingLabels && (
+        <button className="small-button" onClick={showDeviceNames}>
+          Show device names
+        </button>
+      )}
+      {labelError && <div className="channel-note">{labelError}</div>}
+    </div>
+  );
+}
+
+export default AudioChannelControls;
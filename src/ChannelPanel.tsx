@@ -0,0 +1,145 @@
+import { useCallback, useState } from "react";
+import { getChannelStream, type Channel } from "./auth";
+import type { EventRecord } from "./eventHistory";
+import {
+  useEventStream,
+  useStatusLog,
+  useStreamEvent,
+  useStreamIssues,
+  useUptime,
+} from "./eventStream";
+import StatusBadge from "./StatusBadge";
+
+const RECENT_EVENTS = 20;
+
+interface ChannelPanelProps {
+  channel: Channel;
+  /** This channel's events, newest first. */
+  events: EventRecord[];
+  onLog: (
+    channelId: string,
+    type: string,
+    description: string,
+    data?: unknown
+  ) => void;
+  onSelect: (event: EventRecord) => void;
+}
+
+/** One channel's connection, counters and latest events. */
+function ChannelPanel({ channel, events, onLog, onSelect }: ChannelPanelProps) {
+  const stream = getChannelStream(channel.id);
+  const status = useEventStream(stream);
+  const uptime = useUptime(status);
+  const [counts, setCounts] = useState({ events: 0, sounds: 0, videos: 0 });
+
+  const log = useCallback(
+    (type: string, description: string, data?: unknown) =>
+      onLog(channel.id, type, description, data),
+    [onLog, channel.id]
+  );
+
+  useStatusLog(stream, log);
+  useStreamIssues(
+    stream,
+    (error) =>
+      log("error", error.message, {
+        event: error.eventType,
+        issues: error.issues,
+        raw: error.raw,
+      }),
+    (name, e) => log("system", `Unknown event: ${name}`, { raw: e.data })
+  );
+
+  useStreamEvent(stream, "play-sound", (payload) => {
+    // The dashboard's approved copy of a redemption counted already.
+    if (payload.approved) return;
+    setCounts((prev) => ({
+      ...prev,
+      events: prev.events + 1,
+      sounds: prev.sounds + 1,
+    }));
+    log("sound", `Sound: ${payload.filename}`, payload);
+  });
+
+  useStreamEvent(stream, "play-video", (payload) => {
+    if (payload.approved || payload.replay) return;
+    setCounts((prev) => ({
+      ...prev,
+      events: prev.events + 1,
+      videos: prev.videos + 1,
+    }));
+    log(
+      "video",
+      `Video: ${payload.rewardName ?? payload.src.split("/").pop()}`,
+      payload
+    );
+  });
+
+  useStreamEvent(stream, "overlay-status", (payload) => {
+    setCounts((prev) => ({ ...prev, events: prev.events + 1 }));
+    log(
+      payload.state === "error" ? "error" : "overlay",
+      `[${payload.overlay} overlay] ${payload.message}`,
+      payload
+    );
+  });
+
+  return (
+    <section className="control-card channel-panel">
+      <div className="channel-panel-header">
+        <h3>{channel.displayName}</h3>
+        <div className="channel-panel-status">
+          <StatusBadge status={status} onRetry={() => stream.connect()} />
+        </div>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stat-card">
+          <div className="stat-value">{uptime}</div>
+          <div className="stat-label">Uptime</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{counts.events}</div>
+          <div className="stat-label">Events</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{counts.sounds}</div>
+          <div className="stat-label">Sounds</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{counts.videos}</div>
+          <div className="stat-label">Videos</div>
+        </div>
+      </div>
+
+      <div className="events-container channel-events">
+        {events.length === 0 ? (
+          <div className="no-events">No events yet...</div>
+        ) : (
+          events.slice(0, RECENT_EVENTS).map((event) => (
+            <div
+              key={event.id}
+              className={`event-item event-${event.type}`}
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelect(event)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") onSelect(event);
+              }}
+            >
+              <div className="event-time">
+                {event.timestamp.toLocaleTimeString()}
+              </div>
+              <div className="event-content">
+                <div className="event-type">{event.type}</div>
+                <div className="event-description">{event.description}</div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default ChannelPanel;
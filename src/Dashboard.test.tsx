@@ -0,0 +1,517 @@
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { ALERT_EXIT_MS } from "./alerts";
+import { createEventRecord, saveEvent } from "./eventHistory";
+import { apiBase } from "./config";
+import Dashboard from "./Dashboard";
+import { addGoal, getGoals } from "./goals";
+import {
+  getSettings,
+  updateChannel,
+  updateModeration,
+  updateSettings,
+  updateShortcut,
+} from "./settings";
+import {
+  broadcasts,
+  emit,
+  mockApi,
+  openStream,
+  testSession,
+} from "./test/helpers";
+
+const sound = {
+  src: "/sounds/airhorn.mp3",
+  filename: "airhorn.mp3",
+  username: "viewer1",
+  rewardName: "Airhorn",
+};
+
+/** Records the `src` of every clip the dashboard starts. */
+function spyOnPlayback() {
+  const played: string[] = [];
+  vi.spyOn(HTMLMediaElement.prototype, "play").mockImplementation(
+    function (this: HTMLMediaElement) {
+      played.push(this.src);
+      return Promise.resolve();
+    }
+  );
+  return played;
+}
+
+describe("Dashboard", () => {
+  it("asks for a stream token for its channel", async () => {
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    const url = new URL(source.url);
+    expect(url.searchParams.get("channel")).toBe("1001");
+    expect(url.searchParams.get("token")).toBe("test-stream-token");
+  });
+
+  it("logs the connected event", async () => {
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "connected", {});
+
+    expect(
+      await screen.findByText("Server connection established")
+    ).toBeDefined();
+  });
+
+  it("plays sounds on the stream channel and logs them", async () => {
+    const played = spyOnPlayback();
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-sound", sound);
+
+    expect(await screen.findByText("Playing: airhorn.mp3")).toBeDefined();
+    // The monitor channel starts muted, so the clip plays once.
+    await waitFor(() => expect(played).toEqual([`${apiBase}${sound.src}`]));
+  });
+
+  it("logs play-video without playing anything itself", async () => {
+    const played = spyOnPlayback();
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-video", {
+      src: "/videos/confetti.mp4",
+      username: "viewer1",
+      rewardName: "Confetti",
+    });
+
+    expect(await screen.findByText("Video: Confetti")).toBeDefined();
+    expect(played).toEqual([]);
+  });
+
+  it("sends moderated overlays a copy of each sound it lets through", async () => {
+    updateModeration({ enabled: true });
+    const calls = mockApi();
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-sound", { ...sound, redemptionId: "approved-1" });
+    const copy = { ...sound, redemptionId: "approved-1", approved: true };
+    await waitFor(() =>
+      expect(broadcasts(calls, "play-sound")).toEqual([
+        { event: "play-sound", data: copy },
+      ])
+    );
+    emit(source, "play-sound", copy);
+    emit(source, "connected", {});
+
+    await screen.findByText("Server connection established");
+    expect(screen.getAllByText(/^Playing: airhorn\.mp3$/)).toHaveLength(1);
+  });
+
+  it("logs a held video as played only once it is approved", async () => {
+    updateModeration({ enabled: true, holdForApproval: true });
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+    const video = (redemptionId: string) => ({
+      src: "/videos/confetti.mp4",
+      username: "viewer1",
+      rewardName: "Confetti",
+      redemptionId,
+    });
+
+    emit(source, "play-video", video("held-1"));
+    emit(source, "play-video", video("held-2"));
+    await screen.findAllByText(/^Held for approval/);
+    expect(screen.queryByText("Video: Confetti")).toBeNull();
+
+    const [approve] = screen.getAllByRole("button", { name: "Approve" });
+    fireEvent.click(approve);
+    fireEvent.click(screen.getByRole("button", { name: "Reject" }));
+
+    expect(screen.getAllByText("Video: Confetti")).toHaveLength(1);
+  });
+
+  it("ignores its own approved copy of a video", async () => {
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-video", {
+      src: "/videos/confetti.mp4",
+      rewardName: "Approved copy",
+      approved: true,
+    });
+    emit(source, "connected", {});
+
+    await screen.findByText("Server connection established");
+    expect(screen.queryByText("Video: Approved copy")).toBeNull();
+  });
+
+  it("ignores its own video replays instead of moderating them", async () => {
+    updateModeration({ enabled: true, cooldownSeconds: 60 });
+    const calls = mockApi();
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+    const video = {
+      src: "/videos/confetti.mp4",
+      username: "viewer1",
+      rewardName: "Confetti",
+      // Not r1: goals remember counted ids for the rest of the run.
+      redemptionId: "video-1",
+    };
+
+    emit(source, "play-video", video);
+    emit(source, "play-video", { ...video, replay: true });
+    emit(source, "connected", {});
+
+    await screen.findByText("Server connection established");
+    expect(screen.getAllByText("Video: Confetti")).toHaveLength(1);
+    expect(
+      calls.filter((call) => call.path === "/redemptions/decision")
+    ).toEqual([]);
+  });
+
+  it("starts the cooldown when a redemption is held", async () => {
+    updateModeration({
+      enabled: true,
+      holdForApproval: true,
+      cooldownSeconds: 60,
+    });
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-sound", { ...sound, redemptionId: "r1" });
+    emit(source, "play-sound", { ...sound, redemptionId: "r2" });
+
+    expect(
+      await screen.findByText(/^Rejected and refunded: .*cooldown/)
+    ).toBeDefined();
+    expect(screen.getAllByText(/^Held for approval/)).toHaveLength(1);
+  });
+
+  it("sends the blocklist to overlays while moderation is on", async () => {
+    updateModeration({ enabled: true, blocklist: ["troll"] });
+    const calls = mockApi();
+    render(<Dashboard session={testSession} />);
+    await openStream();
+
+    act(() => updateModeration({ enabled: false }));
+
+    await waitFor(() =>
+      expect(broadcasts(calls, "moderation-blocklist")).toEqual([
+        { event: "moderation-blocklist", data: { users: "troll" } },
+        { event: "moderation-blocklist", data: { users: "" } },
+      ])
+    );
+  });
+
+  it("skips playback but still logs when every channel is muted", async () => {
+    const played = spyOnPlayback();
+    updateChannel("stream", { muted: true });
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-sound", sound);
+
+    expect(await screen.findByText("Muted: airhorn.mp3")).toBeDefined();
+    expect(played).toEqual([]);
+  });
+
+  it("plays on the monitor channel when only the stream is muted", async () => {
+    const played = spyOnPlayback();
+    updateChannel("stream", { muted: true });
+    updateChannel("monitor", { muted: false });
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-sound", sound);
+
+    await waitFor(() => expect(played).toHaveLength(1));
+    expect(screen.getByText("Playing: airhorn.mp3")).toBeDefined();
+  });
+
+  it("broadcasts soundboard clips without a viewer", async () => {
+    const calls = mockApi({
+      "GET /sounds": () => [{ src: sound.src, filename: sound.filename }],
+    });
+    render(<Dashboard session={testSession} />);
+    await openStream();
+
+    fireEvent.click(await screen.findByRole("button", { name: "Broadcast" }));
+
+    await waitFor(() =>
+      expect(broadcasts(calls, "play-sound")).toEqual([
+        {
+          event: "play-sound",
+          data: {
+            src: sound.src,
+            filename: sound.filename,
+            rewardName: "airhorn",
+          },
+        },
+      ])
+    );
+  });
+
+  it("counts redemptions towards goals and sends them to overlays", async () => {
+    const calls = mockApi();
+    const goal = addGoal({ label: "Horns", rewardName: "airhorn", target: 2 });
+    addGoal({ label: "Videos", rewardName: "Confetti", target: 5 });
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-sound", { ...sound, redemptionId: "r1" });
+    // The same redemption again, e.g. replayed after a reconnect.
+    emit(source, "play-sound", { ...sound, redemptionId: "r1" });
+    emit(source, "play-sound", { ...sound, redemptionId: "r2" });
+
+    expect(getGoals().map((g) => g.count)).toEqual([2, 0]);
+    expect(await screen.findByText("Goal reached: Horns")).toBeDefined();
+    const progress = (count: number) => ({
+      event: "goal-progress",
+      data: {
+        goalId: goal.id,
+        label: "Horns",
+        count,
+        target: 2,
+        rewardName: "airhorn",
+      },
+    });
+    await waitFor(() =>
+      expect(broadcasts(calls, "goal-progress")).toEqual([
+        progress(1),
+        progress(2),
+      ])
+    );
+  });
+
+  it("ranks redeemers from the stored history and sends the top rows", async () => {
+    const calls = mockApi();
+    const redemption = (username: string) =>
+      createEventRecord("sound", "Playing: airhorn.mp3", { ...sound, username });
+    for (const username of ["zoe", "amy", "zoe"]) {
+      await saveEvent(redemption(username));
+    }
+    const { container } = render(<Dashboard session={testSession} />);
+    await openStream();
+
+    await waitFor(() =>
+      expect(
+        [...container.querySelectorAll(".leaderboard-table tbody tr")].map(
+          (row) => row.querySelector(".leaderboard-user")?.textContent
+        )
+      ).toEqual(["zoe", "amy"])
+    );
+    const rows = [
+      { username: "zoe", count: 2 },
+      { username: "amy", count: 1 },
+    ];
+    await waitFor(() =>
+      expect(broadcasts(calls, "leaderboard")).toEqual([
+        { event: "leaderboard", data: { scope: "session", entries: rows } },
+        { event: "leaderboard", data: { scope: "all-time", entries: rows } },
+      ])
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Viewer" }));
+    const [first] = container.querySelectorAll(".leaderboard-table tbody tr");
+    // Sorted by name, ranks still follow the redemption count.
+    expect(first.textContent).toMatch(/^2amy1/);
+  });
+
+  it("resets the session leaderboard but keeps the all-time one", async () => {
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    await saveEvent(createEventRecord("sound", "Playing: airhorn.mp3", sound));
+    render(<Dashboard session={testSession} />);
+    await openStream();
+    await screen.findByText("viewer1");
+
+    fireEvent.click(screen.getByRole("button", { name: "Reset This session" }));
+
+    expect(await screen.findByText("No redemptions yet")).toBeDefined();
+    fireEvent.change(screen.getByLabelText("Leaderboard period"), {
+      target: { value: "all-time" },
+    });
+    expect(screen.getByText("viewer1")).toBeDefined();
+  });
+
+  it("mutes with the shortcut and restores only the channels it muted", async () => {
+    render(<Dashboard session={testSession} />);
+    await openStream();
+
+    fireEvent.keyDown(window, { code: "KeyM", key: "m" });
+    expect(getSettings().channels.stream.muted).toBe(true);
+    expect(await screen.findByText("Muted all channels")).toBeDefined();
+
+    fireEvent.keyDown(window, { code: "KeyM", key: "m" });
+    expect(getSettings().channels.stream.muted).toBe(false);
+    expect(getSettings().channels.monitor.muted).toBe(true);
+  });
+
+  it("steps the volume but ignores keys typed into text fields", async () => {
+    render(<Dashboard session={testSession} />);
+    await openStream();
+
+    fireEvent.keyDown(window, { code: "Equal", key: "=" });
+    fireEvent.keyDown(window, { code: "Equal", key: "=", repeat: true });
+    expect(getSettings().channels.stream.volume).toBe(0.8);
+    expect(getSettings().channels.monitor.volume).toBe(0.8);
+
+    fireEvent.keyDown(screen.getByPlaceholderText("Search events..."), {
+      code: "Minus",
+      key: "-",
+    });
+    expect(getSettings().channels.stream.volume).toBe(0.8);
+  });
+
+  it("pauses all playback with the panic shortcut until resumed", async () => {
+    const played = spyOnPlayback();
+    const calls = mockApi();
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    fireEvent.keyDown(window, { code: "KeyP", key: "p" });
+    emit(source, "play-sound", sound);
+
+    expect(await screen.findByText("Paused: airhorn.mp3")).toBeDefined();
+    expect(played).toEqual([]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Resume" }));
+    emit(source, "play-sound", sound);
+
+    await waitFor(() => expect(played).toHaveLength(1));
+    await waitFor(() =>
+      expect(broadcasts(calls, "playback-paused")).toEqual([
+        { event: "playback-paused", data: { paused: true } },
+        { event: "playback-paused", data: { paused: false } },
+      ])
+    );
+  });
+
+  it("neither counts nor approves redemptions while paused", async () => {
+    updateModeration({ enabled: true });
+    const calls = mockApi();
+    addGoal({ label: "Videos", rewardName: "Confetti", target: 5 });
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    fireEvent.keyDown(window, { code: "KeyP", key: "p" });
+    emit(source, "play-video", {
+      src: "/videos/confetti.mp4",
+      username: "viewer1",
+      rewardName: "Confetti",
+      redemptionId: "paused-1",
+    });
+
+    expect(await screen.findByText("Paused: Confetti")).toBeDefined();
+    expect(getGoals().map((g) => g.count)).toEqual([0]);
+    await waitFor(() =>
+      expect(broadcasts(calls, "playback-paused")).toHaveLength(1)
+    );
+    expect(broadcasts(calls, "play-video")).toEqual([]);
+  });
+
+  it("lists the current bindings in the shortcuts help", async () => {
+    updateShortcut("skip", "Ctrl+KeyS");
+    updateShortcut("toggle-mute", "");
+    render(<Dashboard session={testSession} />);
+    await openStream();
+
+    fireEvent.keyDown(window, { code: "Slash", key: "?", shiftKey: true });
+
+    const help = await screen.findByRole("dialog", {
+      name: "Keyboard shortcuts",
+    });
+    expect(help.textContent).toContain("Skip current soundCtrl+S");
+    expect(help.textContent).toContain("Mute / unmuteUnbound");
+
+    fireEvent.keyDown(window, { key: "Escape", code: "Escape" });
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+
+  it("applies history retention only after confirming a shrink", async () => {
+    const confirm = vi.spyOn(window, "confirm").mockReturnValue(false);
+    render(<Dashboard session={testSession} />);
+    await openStream();
+    fireEvent.click(screen.getByRole("button", { name: "Filters" }));
+    const days = screen.getByLabelText("Keep days");
+
+    // Typing "7" passes through "" first; neither may prune anything.
+    fireEvent.change(days, { target: { value: "" } });
+    fireEvent.change(days, { target: { value: "7" } });
+    expect(getSettings().historyRetention.maxAgeDays).toBe(30);
+
+    fireEvent.click(screen.getByRole("button", { name: "Apply" }));
+    expect(confirm).toHaveBeenCalledTimes(1);
+    expect(getSettings().historyRetention.maxAgeDays).toBe(30);
+
+    confirm.mockReturnValue(true);
+    fireEvent.click(screen.getByRole("button", { name: "Apply" }));
+    expect(getSettings().historyRetention.maxAgeDays).toBe(7);
+    expect(screen.queryByRole("button", { name: "Apply" })).toBeNull();
+  });
+
+  it("times the API round trip and clamps the silence warning", async () => {
+    const calls = mockApi();
+    render(<Dashboard session={testSession} />);
+    await openStream();
+
+    expect(await screen.findByText(/^\d+ ms$/)).toBeDefined();
+    expect(calls.some((call) => call.path === "/health")).toBe(true);
+
+    const silence = screen.getByLabelText("Warn after silence (seconds)");
+    fireEvent.change(silence, { target: { value: "5" } });
+    expect(getSettings().silenceWarningSeconds).toBe(120);
+    fireEvent.blur(silence);
+    expect(getSettings().silenceWarningSeconds).toBe(10);
+
+    fireEvent.change(silence, { target: { value: "99999" } });
+    fireEvent.keyDown(silence, { key: "Enter" });
+    expect(getSettings().silenceWarningSeconds).toBe(3600);
+  });
+
+  it("keeps at most maxEntries events in the history", async () => {
+    updateSettings({ historyRetention: { maxAgeDays: 0, maxEntries: 100 } });
+    const { container } = render(<Dashboard session={testSession} />);
+    const source = await openStream();
+
+    for (let i = 0; i < 105; i++) {
+      emit(source, "play-sound", { src: `/s/${i}.mp3`, filename: `${i}.mp3` });
+    }
+
+    await waitFor(() =>
+      expect(container.querySelectorAll(".event-description")).toHaveLength(100)
+    );
+    expect(screen.getByText(/^(Playing|Queued): 104\.mp3$/)).toBeDefined();
+    expect(screen.queryByText(/^(Playing|Queued): 0\.mp3$/)).toBeNull();
+  });
+
+  it("shows a redemption toast for the configured duration", async () => {
+    updateSettings((current) => ({
+      alert: { ...current.alert, durationMs: 3000 },
+    }));
+    render(<Dashboard session={testSession} />);
+    const source = await openStream();
+    // Only after connecting: testing-library's async helpers need real timers.
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+
+    emit(source, "play-sound", sound);
+    const toast = screen.getByRole("status");
+    expect(toast.textContent).toContain("viewer1");
+    expect(toast.className).toContain("alert-enter-fade");
+
+    act(() => vi.advanceTimersByTime(2999));
+    expect(toast.className).toContain("alert-enter-fade");
+
+    act(() => vi.advanceTimersByTime(1));
+    expect(toast.className).toContain("alert-exit-fade");
+
+    // The queue releases the alert once the exit animation's promise settles.
+    await act(() => vi.advanceTimersByTimeAsync(ALERT_EXIT_MS));
+    expect(screen.queryByRole("status")).toBeNull();
+  });
+});
@@ -0,0 +1,853 @@
+import {
+  Suspense,
+  lazy,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { apiBase, mockMode } from "./config";
+import { cacheAsset, mediaUrl, preloadCatalog } from "./assetCache";
+import {
+  audioChannelNames,
+  playOnChannels,
+  type AudioChannel,
+  type AudioChannelName,
+} from "./audio";
+import AudioChannelControls from "./AudioChannelControls";
+import {
+  PlaybackQueue,
+  overlapPolicies,
+  usePlaybackQueue,
+  type EnqueueResult,
+  type OverlapPolicy,
+} from "./playbackQueue";
+import {
+  useEventStream,
+  useSilence,
+  useStatusLog,
+  useStreamEvent,
+  useStreamIssues,
+  useUptime,
+  type SoundPayload,
+  type VideoPayload,
+} from "./eventStream";
+import {
+  clearEvents,
+  belongsToChannel,
+  createEventRecord,
+  loadEvents,
+  pruneEvents,
+  saveEvent,
+  type EventDetails,
+  type EventOutcome,
+  type EventRecord,
+} from "./eventHistory";
+import EventHistoryPanel from "./EventHistoryPanel";
+import EventDetailDrawer from "./EventDetailDrawer";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+import GoalsPanel from "./GoalsPanel";
+import LeaderboardPanel from "./LeaderboardPanel";
+import { countRedemption, publishGoal } from "./goals";
+import MediaCachePanel from "./MediaCachePanel";
+import NumberInput from "./NumberInput";
+import { broadcastEvent, postRedemptionDecision } from "./api";
+import { publishBlocklist } from "./blocklist";
+import {
+  CooldownTracker,
+  ModerationQueue,
+  describeRedemption,
+  normalizeUsername,
+  screenRedemption,
+  useModerationQueue,
+  type ModerationDecision,
+  type Redemption,
+} from "./moderation";
+import {
+  getChannelStream,
+  selectChannel,
+  signOut,
+  type Session,
+} from "./auth";
+import { useAlertQueue } from "./alerts";
+import {
+  allChannelsMuted,
+  updateModeration,
+  updateSettings,
+  updateTts,
+  useSettings,
+  type Settings,
+} from "./settings";
+import { useShortcuts, VOLUME_STEP } from "./shortcuts";
+import ShortcutsHelp from "./ShortcutsHelp";
+import PendingRedemptions from "./PendingRedemptions";
+import RedemptionAlerts from "./RedemptionAlerts";
+import Soundboard from "./Soundboard";
+import StatusBadge from "./StatusBadge";
+import { renderAnnouncement, speak, ttsSupported } from "./tts";
+
+/** TTS announcements share the sound queue so they never overlap a clip. */
+type QueuedClip =
+  | { kind: "sound"; payload: SoundPayload }
+  | { kind: "speech"; text: string; payload: SoundPayload };
+
+const clipName = (clip: QueuedClip) =>
+  clip.kind === "speech" ? `🗣️ ${clip.text}` : clip.payload.filename;
+
+const playOutcomes: Record<EnqueueResult, EventOutcome> = {
+  playing: "played",
+  queued: "queued",
+  dropped: "dropped",
+};
+
+/** Split out so the demo server only loads in mock mode. */
+const MockControls = lazy(() => import("./MockControls"));
+
+const decisionLabels: Record<ModerationDecision, string> = {
+  approved: "Approved",
+  rejected: "Rejected",
+  refunded: "Rejected and refunded",
+};
+
+interface DashboardProps {
+  session: Session;
+}
+
+function Dashboard({ session }: DashboardProps) {
+  const { channelId } = session;
+  const stream = getChannelStream(channelId);
+  const status = useEventStream(stream);
+  const silence = useSilence(stream);
+  const settings = useSettings();
+  const { historyRetention: retention } = settings;
+  const { policy: queuePolicy, maxVoices } = settings.queue;
+  const [events, setEvents] = useState<EventRecord[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<EventRecord | null>(null);
+  const [eventCount, setEventCount] = useState<number>(0);
+  const [soundsPlayed, setSoundsPlayed] = useState<number>(0);
+  const { alerts, push: pushAlert } = useAlertQueue(settings.alert);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const [soundQueue] = useState(
+    () =>
+      new PlaybackQueue<QueuedClip>({
+        policy: queuePolicy,
+        maxVoices,
+        play: (clip) =>
+          clip.kind === "speech"
+            ? speak(clip.text, settingsRef.current.tts, (message) =>
+                addEvent("error", `Text-to-speech failed: ${message}`)
+              )
+            : playOnChannels(
+                mediaUrl(clip.payload.src),
+                Object.values(settingsRef.current.channels),
+                () =>
+                  addEvent(
+                    "error",
+                    `Failed to play: ${clip.payload.filename}`,
+                    undefined,
+                    { outcome: "failed" }
+                  )
+              ),
+        onStart: (entry) => {
+          if (entry.item.kind === "sound") setSoundsPlayed((prev) => prev + 1);
+        },
+        isExclusive: (clip) => clip.kind === "speech",
+      })
+  );
+  const { playing, pending } = usePlaybackQueue(soundQueue);
+  const speaking = playing.find((entry) => entry.item.kind === "speech");
+  const { moderation } = settings;
+  const [moderationQueue] = useState(() => new ModerationQueue());
+  const [cooldowns] = useState(() => new CooldownTracker());
+  const held = useModerationQueue(moderationQueue);
+  const [paused, setPaused] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const closeShortcuts = useCallback(() => setShowShortcuts(false), []);
+  /** Channels the mute shortcut silenced, so unmuting restores just those. */
+  const mutedByShortcutRef = useRef<AudioChannelName[]>([]);
+  console.log("🌐 Broadcaster Suite API Base:", apiBase);
+
+  
+
+  useEffect(() => {
+    soundQueue.setPolicy(queuePolicy, maxVoices);
+  }, [soundQueue, queuePolicy, maxVoices]);
+
+  useEffect(() => () => soundQueue.stopAll(), [soundQueue]);
+
+  useEffect(() => {
+    preloadCatalog().catch((error) =>
+      console.error("Failed to preload media", error)
+    );
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEvents()
+      .then((events) => events.filter(belongsToChannel(channelId)))
+      .then((stored) => {
+        if (cancelled) return;
+        // Keep anything logged while the database was opening.
+        setEvents((prev) => {
+          const ids = new Set(prev.map((event) => event.id));
+          return [...prev, ...stored.filter((event) => !ids.has(event.id))];
+        });
+      })
+      .catch((error) => console.error("Failed to load event history", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [channelId]);
+
+  useEffect(() => {
+    pruneEvents(retention)
+      .then(loadEvents)
+      .then((events) => setEvents(events.filter(belongsToChannel(channelId))))
+      .catch((error) => console.error("Failed to prune event history", error));
+  }, [channelId, retention]);
+
+  const maxEntriesRef = useRef(retention.maxEntries);
+  maxEntriesRef.current = retention.maxEntries;
+
+  const addEvent = useCallback(
+    (
+      type: string,
+      description: string,
+      data?: unknown,
+      details?: EventDetails
+    ) => {
+      const event = createEventRecord(
+        type,
+        description,
+        data,
+        channelId,
+        details
+      );
+      setEvents((prev) => [event, ...prev.slice(0, maxEntriesRef.current - 1)]);
+      setEventCount((prev) => prev + 1);
+      saveEvent(event).catch((error) =>
+        console.error("Failed to store event", error)
+      );
+    },
+    [channelId]
+  );
+
+  const uptime = useUptime(status);
+
+  useStatusLog(stream, addEvent);
+
+  useStreamIssues(
+    stream,
+    (error) =>
+      addEvent("error", error.message, {
+        event: error.eventType,
+        issues: error.issues,
+        raw: error.raw,
+      }),
+    (name, e) => addEvent("system", `Unknown event: ${name}`, { raw: e.data })
+  );
+
+  useStreamEvent(stream, "connected", () => {
+    addEvent("connection", "Server connection established");
+  });
+
+  // Overlays cannot read these settings, so they get the blocklist sent.
+  const blocked = moderation.enabled ? moderation.blocklist.join(",") : "";
+  useEffect(() => {
+    publishBlocklist(blocked ? blocked.split(",") : []).catch((error: Error) =>
+      addEvent("error", `Could not update overlay blocklist: ${error.message}`)
+    );
+  }, [blocked, addEvent]);
+
+  const playSound = (payload: SoundPayload) => {
+    if (paused) {
+      addEvent("sound", `Paused: ${payload.filename}`, payload, {
+        origin: "redemption",
+        outcome: "paused",
+      });
+      return;
+    }
+    if (allChannelsMuted(settings)) {
+      addEvent("sound", `Muted: ${payload.filename}`, payload, {
+        origin: "redemption",
+        outcome: "muted",
+      });
+    } else {
+      const result = soundQueue.enqueue({ kind: "sound", payload });
+      addEvent(
+        "sound",
+        result === "dropped"
+          ? `Dropped (busy): ${payload.filename}`
+          : result === "queued"
+          ? `Queued: ${payload.filename}`
+          : `Playing: ${payload.filename}`,
+        payload,
+        { origin: "redemption", outcome: playOutcomes[result] }
+      );
+      const announcement = settings.tts.enabled
+        ? renderAnnouncement(payload, settings.tts)
+        : null;
+      if (announcement && result !== "dropped") {
+        soundQueue.enqueue({ kind: "speech", text: announcement, payload });
+      }
+    }
+
+    if (payload.username && payload.rewardName) {
+      pushAlert(payload.username, payload.rewardName, payload.imageUrl);
+    }
+  };
+
+  /** Counts a redemption that played towards the goals it matches. */
+  const trackGoals = ({ payload }: Redemption) => {
+    if (!payload.username || !payload.rewardName) return;
+    countRedemption(payload.rewardName, payload.redemptionId).forEach((goal) => {
+      if (goal.count === goal.target) {
+        addEvent("system", `Goal reached: ${goal.label}`, goal);
+      }
+      publishGoal(goal).catch((error: Error) =>
+        addEvent("error", `Could not update goals overlay: ${error.message}`)
+      );
+    });
+  };
+
+  /**
+   * Logs a video once it is let through, like playSound does for sounds, so
+   * held and rejected videos never count as played. The overlays play it.
+   */
+  const logVideo = (payload: VideoPayload) =>
+    addEvent(
+      "video",
+      `${paused ? "Paused" : "Video"}: ${
+        payload.rewardName ?? payload.src.split("/").pop()
+      }`,
+      payload,
+      { origin: "redemption", outcome: paused ? "paused" : "played" }
+    );
+
+  /** Lets a redemption through; moderated overlays wait for its copy. */
+  const playRedemption = (redemption: Redemption) => {
+    // While paused redemptions are only logged: nothing plays or counts
+    // towards goals.
+    if (!paused) trackGoals(redemption);
+    if (redemption.kind === "sound") playSound(redemption.payload);
+    else logVideo(redemption.payload);
+    if (paused || !moderation.enabled) return;
+    const { kind, payload } = redemption;
+    const approved =
+      kind === "sound"
+        ? broadcastEvent("play-sound", { ...payload, approved: true })
+        : broadcastEvent("play-video", { ...payload, approved: true });
+    approved.catch((error: Error) =>
+      addEvent("error", `Could not send approved ${kind}: ${error.message}`)
+    );
+  };
+
+  const recordDecision = (
+    redemption: Redemption,
+    decision: ModerationDecision,
+    reason?: string
+  ) => {
+    const { payload } = redemption;
+    addEvent(
+      "moderation",
+      `${decisionLabels[decision]}: ${describeRedemption(redemption)}${
+        reason ? ` (${reason})` : ""
+      }`,
+      { decision, reason, ...payload }
+    );
+    postRedemptionDecision({
+      event: redemption.kind === "sound" ? "play-sound" : "play-video",
+      decision,
+      redemptionId: payload.redemptionId,
+      username: payload.username,
+      rewardName: payload.rewardName,
+      reason,
+    }).catch((error: Error) =>
+      addEvent("error", `Could not report decision: ${error.message}`)
+    );
+  };
+
+  const handleRedemption = (redemption: Redemption) => {
+    if (!moderation.enabled) {
+      playRedemption(redemption);
+      return;
+    }
+    const screening = screenRedemption(redemption, moderation, cooldowns);
+    if (!screening.allowed) {
+      // Cooldown hits are refunded; blocked users are not.
+      if (screening.reason === "blocked") {
+        recordDecision(redemption, "rejected", "blocked user");
+      } else {
+        recordDecision(
+          redemption,
+          "refunded",
+          `cooldown, ${Math.ceil(screening.remainingMs / 1000)}s left`
+        );
+      }
+      return;
+    }
+    // Started when screening passes, so a held redemption already counts
+    // and the same user cannot queue up several while a moderator decides.
+    const { username } = redemption.payload;
+    if (username) cooldowns.mark(username);
+    if (moderation.holdForApproval) {
+      moderationQueue.add(redemption);
+      addEvent(
+        "moderation",
+        `Held for approval: ${describeRedemption(redemption)}`,
+        redemption.payload
+      );
+      return;
+    }
+    playRedemption(redemption);
+  };
+
+  const decide = (id: string, decision: ModerationDecision) => {
+    const entry = moderationQueue.take(id);
+    if (!entry) return;
+    recordDecision(entry.redemption, decision);
+    if (decision === "approved") playRedemption(entry.redemption);
+  };
+
+  const blockUser = (username: string) => {
+    const name = normalizeUsername(username);
+    updateModeration({
+      blocklist: Array.from(new Set([...moderation.blocklist, name])),
+    });
+    held
+      .filter((entry) => {
+        const user = entry.redemption.payload.username;
+        return user && normalizeUsername(user) === name;
+      })
+      .forEach((entry) => {
+        moderationQueue.take(entry.id);
+        recordDecision(entry.redemption, "rejected", "blocked user");
+      });
+  };
+
+  useStreamEvent(stream, "play-sound", (payload) => {
+    // Our own approved copy coming back; the original was handled already.
+    if (payload.approved) return;
+    // Rewards added after startup are cached the first time they play.
+    cacheAsset(payload.src);
+    handleRedemption({ kind: "sound", payload });
+  });
+
+  useStreamEvent(stream, "play-video", (payload) => {
+    // Our own approved copy or replay coming back; the original was
+    // moderated already.
+    if (payload.approved || payload.replay) return;
+    cacheAsset(payload.src);
+    handleRedemption({ kind: "video", payload });
+  });
+
+  useStreamEvent(stream, "overlay-status", (payload) => {
+    addEvent(
+      payload.state === "error" ? "error" : "overlay",
+      `[${payload.overlay} overlay] ${payload.message}`,
+      payload,
+      payload.state === "error" ? { outcome: "failed" } : undefined
+    );
+  });
+
+  const replaySound = (payload: SoundPayload) => {
+    const result = soundQueue.enqueue({ kind: "sound", payload });
+    addEvent(
+      "sound",
+      result === "dropped"
+        ? `Replay dropped (busy): ${payload.filename}`
+        : `Replayed: ${payload.filename}`,
+      payload,
+      { origin: "replay", outcome: playOutcomes[result] }
+    );
+  };
+
+  const replayVideo = (payload: VideoPayload) =>
+    broadcastEvent("play-video", { ...payload, replay: true }).then(
+      () => {
+        addEvent("system", `Replayed video on overlay: ${payload.src}`);
+      },
+      (error: Error) => {
+        addEvent("error", `Video replay failed: ${error.message}`, payload);
+        throw error;
+      }
+    );
+
+  const clearHistory = () => {
+    clearEvents(channelId).catch((error) =>
+      console.error("Failed to clear event history", error)
+    );
+    setEvents([]);
+    setEventCount(0);
+    setSoundsPlayed(0);
+  };
+
+  const updateChannels = (
+    change: (channel: AudioChannel) => Partial<AudioChannel>,
+    names = audioChannelNames
+  ) =>
+    updateSettings(({ channels }) => ({
+      channels: Object.fromEntries(
+        audioChannelNames.map((name) => [
+          name,
+          names.includes(name)
+            ? { ...channels[name], ...change(channels[name]) }
+            : channels[name],
+        ])
+      ) as Settings["channels"],
+    }));
+
+  const toggleMute = () => {
+    const live = audioChannelNames.filter(
+      (name) => !settings.channels[name].muted
+    );
+    if (live.length > 0) {
+      mutedByShortcutRef.current = live;
+      updateChannels(() => ({ muted: true }));
+      addEvent("system", "Muted all channels");
+      return;
+    }
+    const restore = mutedByShortcutRef.current;
+    updateChannels(
+      () => ({ muted: false }),
+      restore.length > 0 ? restore : ["stream"]
+    );
+    addEvent("system", "Unmuted");
+  };
+
+  const nudgeVolume = (delta: number) =>
+    updateChannels(({ volume }) => ({
+      // Rounded so repeated steps land on whole percentages.
+      volume: Math.round(Math.min(1, Math.max(0, volume + delta)) * 100) / 100,
+    }));
+
+  const skipCurrent = () => {
+    const [current] = playing;
+    if (!current) return;
+    soundQueue.skip(current.id);
+    addEvent("system", `Skipped: ${clipName(current.item)}`);
+  };
+
+  const togglePause = () => {
+    const next = !paused;
+    setPaused(next);
+    if (next) soundQueue.stopAll();
+    addEvent("system", next ? "Playback paused" : "Playback resumed");
+    broadcastEvent("playback-paused", { paused: next }).catch(
+      (error: Error) =>
+        addEvent("error", `Could not update overlays: ${error.message}`)
+    );
+  };
+
+  useShortcuts(settings.shortcuts, {
+    "toggle-mute": toggleMute,
+    "volume-up": () => nudgeVolume(VOLUME_STEP),
+    "volume-down": () => nudgeVolume(-VOLUME_STEP),
+    skip: skipCurrent,
+    "clear-history": () => {
+      if (window.confirm("Clear the event history?")) clearHistory();
+    },
+    panic: togglePause,
+    help: () => setShowShortcuts((shown) => !shown),
+  });
+
+  return (
+    <div className="app">
+      <header className="header">
+        <div className="header-content">
+          <h1 className="title">
+            <span className="title-icon">🎵</span>
+            HLP Broadcaster Suite
+          </h1>
+          <div className="header-actions">
+            <StatusBadge status={status} onRetry={() => stream.connect()} />
+            {session.channels.length > 1 && (
+              <select
+                className="select-input channel-select"
+                value={session.channelId}
+                onChange={(e) => selectChannel(e.target.value)}
+                aria-label="Channel"
+              >
+                {session.channels.map((channel) => (
+                  <option key={channel.id} value={channel.id}>
+                    {channel.displayName}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="nav-links">
+              {session.channels.length > 1 && (
+                <a href="/channels" className="nav-link">
+                  All Channels
+                </a>
+              )}
+              <a href="/tos" className="nav-link">
+                Terms of Service
+              </a>
+              <a href="/privacy" className="nav-link">
+                Privacy Policy
+              </a>
+              <a href="/overlay/video" className="nav-link">
+                Video Overlay
+              </a>
+              <a href="/analytics" className="nav-link">
+                Analytics
+              </a>
+              <a href="/settings" className="nav-link">
+                Settings
+              </a>
+            </div>
+            <button
+              className="small-button"
+              onClick={() => setShowShortcuts(true)}
+            >
+              Shortcuts
+            </button>
+            <button className="small-button" onClick={signOut}>
+              Sign out {session.user.displayName}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {silence !== null &&
+        silence > settings.silenceWarningSeconds * 1000 && (
+          <div className="silence-banner" role="alert">
+            ⚠️ No events from the server for {Math.floor(silence / 1000)}s.
+            Redemptions may not be reaching the dashboard.
+          </div>
+        )}
+
+      {paused && (
+        <div className="paused-banner" role="alert">
+          ⏸️ Playback paused. Incoming sounds and videos are skipped.
+          <button className="small-button" onClick={togglePause}>
+            Resume
+          </button>
+        </div>
+      )}
+
+      <main className="main">
+        <div className="dashboard">
+          <div className="controls-section">
+            {mockMode && (
+              <Suspense fallback={null}>
+                <MockControls />
+              </Suspense>
+            )}
+
+            <div className="control-card">
+              <h3>Audio Controls</h3>
+              <AudioChannelControls />
+            </div>
+
+            <div className="stats-grid">
+              <div className="stat-card">
+                <div className="stat-value">{uptime}</div>
+                <div className="stat-label">Uptime</div>
+              </div>
+              <div className="stat-card">
+                <div className="stat-value">{eventCount}</div>
+                <div className="stat-label">Total Events</div>
+              </div>
+              <div className="stat-card">
+                <div className="stat-value">{soundsPlayed}</div>
+                <div className="stat-label">Sounds Played</div>
+              </div>
+              <div className="stat-card">
+                <div className="stat-value">{pending.length}</div>
+                <div className="stat-label">Queue Depth</div>
+              </div>
+            </div>
+
+            <div className="control-card">
+              <h3>Playback Queue</h3>
+              <div className="queue-settings">
+                <select
+                  className="select-input"
+                  value={queuePolicy}
+                  onChange={(e) =>
+                    updateSettings({
+                      queue: {
+                        policy: e.target.value as OverlapPolicy,
+                        maxVoices,
+                      },
+                    })
+                  }
+                >
+                  {overlapPolicies.map((policy) => (
+                    <option key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+                {queuePolicy === "overlap" && (
+                  <label className="voices-input">
+                    Max voices
+                    <NumberInput
+                      min={1}
+                      max={8}
+                      integer
+                      value={maxVoices}
+                      onChange={(voices) =>
+                        updateSettings({
+                          queue: { policy: queuePolicy, maxVoices: voices },
+                        })
+                      }
+                    />
+                  </label>
+                )}
+              </div>
+
+              <div className="tts-controls">
+                <label className="settings-check">
+                  <input
+                    type="checkbox"
+                    checked={settings.tts.enabled}
+                    disabled={!ttsSupported}
+                    onChange={(e) => updateTts({ enabled: e.target.checked })}
+                  />
+                  Read redemptions aloud
+                </label>
+                <button
+                  className="small-button"
+                  onClick={() => speaking && soundQueue.skip(speaking.id)}
+                  disabled={!speaking}
+                >
+                  Skip Speech
+                </button>
+              </div>
+
+              <div className="queue-list">
+                <div className="queue-heading">Now playing</div>
+                {playing.length === 0 ? (
+                  <div className="queue-empty">Nothing playing</div>
+                ) : (
+                  playing.map((entry) => (
+                    <div key={entry.id} className="queue-item playing">
+                      <span className="queue-name">{clipName(entry.item)}</span>
+                      <button
+                        className="small-button"
+                        onClick={() => soundQueue.skip(entry.id)}
+                      >
+                        Skip
+                      </button>
+                    </div>
+                  ))
+                )}
+
+                <div className="queue-heading">Up next</div>
+                {pending.length === 0 ? (
+                  <div className="queue-empty">Queue is empty</div>
+                ) : (
+                  pending.map((entry) => (
+                    <div key={entry.id} className="queue-item">
+                      <span className="queue-name">{clipName(entry.item)}</span>
+                      <button
+                        className="small-button"
+                        onClick={() => soundQueue.remove(entry.id)}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <button
+                className="clear-button"
+                onClick={() => soundQueue.clear()}
+                disabled={pending.length === 0}
+              >
+                Clear Queue
+              </button>
+            </div>
+
+            <div className="control-card">
+              <h3>Moderation</h3>
+              <div className="moderation-toggles">
+                <label className="settings-check">
+                  <input
+                    type="checkbox"
+                    checked={moderation.enabled}
+                    onChange={(e) =>
+                      updateModeration({ enabled: e.target.checked })
+                    }
+                  />
+                  Screen redemptions
+                </label>
+                <label className="settings-check">
+                  <input
+                    type="checkbox"
+                    checked={moderation.holdForApproval}
+                    disabled={!moderation.enabled}
+                    onChange={(e) =>
+                      updateModeration({ holdForApproval: e.target.checked })
+                    }
+                  />
+                  Hold for approval
+                </label>
+              </div>
+              {moderation.enabled && (
+                <>
+                  <div className="settings-hint">
+                    {moderation.cooldownSeconds > 0
+                      ? `${moderation.cooldownSeconds}s cooldown per user`
+                      : "No cooldown"}
+                    , {moderation.blocklist.length} blocked.{" "}
+                    <a href="/settings" className="inline-link">
+                      Edit
+                    </a>
+                  </div>
+                  <PendingRedemptions
+                    pending={held}
+                    onDecide={decide}
+                    onBlock={blockUser}
+                  />
+                </>
+              )}
+            </div>
+
+            <Soundboard onLog={addEvent} />
+
+            <GoalsPanel onLog={addEvent} />
+
+            <LeaderboardPanel events={events} onLog={addEvent} />
+
+            <MediaCachePanel />
+
+            <DiagnosticsPanel stream={stream} channelId={channelId} />
+          </div>
+
+          <EventHistoryPanel
+            events={events}
+            retention={retention}
+            onRetentionChange={(historyRetention) =>
+              updateSettings({ historyRetention })
+            }
+            onClear={clearHistory}
+            onSelect={setSelectedEvent}
+          />
+        </div>
+      </main>
+
+      {selectedEvent && (
+        <EventDetailDrawer
+          event={selectedEvent}
+          onClose={() => setSelectedEvent(null)}
+          onReplaySound={replaySound}
+          onReplayVideo={replayVideo}
+        />
+      )}
+
+      {showShortcuts && (
+        <ShortcutsHelp keymap={settings.shortcuts} onClose={closeShortcuts} />
+      )}
+
+      <RedemptionAlerts alerts={alerts} config={settings.alert} />
+    </div>
+  );
+}
+
+export default Dashboard;
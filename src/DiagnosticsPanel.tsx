@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { formatDuration } from "./analytics";
+import { apiBase, apiBaseSource, apiBaseSourceLabels } from "./config";
+import {
+  measureRoundTrip,
+  runSelfTest,
+  type SelfTestResult,
+} from "./diagnostics";
+import {
+  describeStatus,
+  useSilence,
+  useStreamDiagnostics,
+  type EventStreamClient,
+} from "./eventStream";
+import {
+  clampSilenceWarning,
+  updateSettings,
+  useSettings,
+} from "./settings";
+
+interface DiagnosticsPanelProps {
+  stream: EventStreamClient;
+  channelId?: string;
+}
+
+const ROUND_TRIP_INTERVAL_MS = 30000;
+
+const formatSilence = (ms: number | null) =>
+  ms === null
+    ? "No messages yet"
+    : ms < 60000
+      ? `${Math.floor(ms / 1000)}s ago`
+      : `${formatDuration(ms)} ago`;
+
+function DiagnosticsPanel({ stream, channelId }: DiagnosticsPanelProps) {
+  const { silenceWarningSeconds } = useSettings();
+  const diagnostics = useStreamDiagnostics(stream);
+  const silence = useSilence(stream);
+  const [results, setResults] = useState<SelfTestResult[] | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [roundTrip, setRoundTrip] = useState<number | "unreachable" | null>(
+    null
+  );
+  const [silenceDraft, setSilenceDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const probe = () =>
+      measureRoundTrip().then(
+        (ms) => !cancelled && setRoundTrip(ms),
+        () => !cancelled && setRoundTrip("unreachable")
+      );
+    probe();
+    const timer = setInterval(probe, ROUND_TRIP_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const applySilence = () => {
+    if (silenceDraft === null) return;
+    const seconds = Number(silenceDraft);
+    if (silenceDraft.trim() !== "" && Number.isFinite(seconds)) {
+      updateSettings({ silenceWarningSeconds: clampSilenceWarning(seconds) });
+    }
+    setSilenceDraft(null);
+  };
+
+  const selfTest = () => {
+    setTesting(true);
+    setResults(null);
+    runSelfTest(channelId)
+      .then(setResults)
+      .finally(() => setTesting(false));
+  };
+
+  return (
+    <div className="control-card">
+      <h3>Connection Diagnostics</h3>
+      <div className="diagnostics-grid">
+        <div className="diagnostics-item">
+          <span className="diagnostics-label">Last message</span>
+          <span className="diagnostics-value">{formatSilence(silence)}</span>
+        </div>
+        <div className="diagnostics-item">
+          <span className="diagnostics-label">Reconnects</span>
+          <span className="diagnostics-value">{diagnostics.reconnects}</span>
+        </div>
+        <div className="diagnostics-item">
+          <span
+            className="diagnostics-label"
+            title={`Time for a /health request to come back, every ${
+              ROUND_TRIP_INTERVAL_MS / 1000
+            }s`}
+          >
+            API round trip
+          </span>
+          <span className="diagnostics-value">
+            {roundTrip === null
+              ? "Measuring..."
+              : roundTrip === "unreachable"
+                ? "Unreachable"
+                : `${Math.round(roundTrip)} ms`}
+          </span>
+        </div>
+      </div>
+
+      <div className="settings-hint">
+        API <code>{apiBase}</code> ({apiBaseSourceLabels[apiBaseSource]}).
+      </div>
+
+      <label className="filter-field">
+        Warn after silence (seconds)
+        <input
+          type="number"
+          className="text-input"
+          min={10}
+          max={3600}
+          value={silenceDraft ?? silenceWarningSeconds}
+          onChange={(e) => setSilenceDraft(e.target.value)}
+          onBlur={applySilence}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") applySilence();
+          }}
+        />
+      </label>
+
+      <button
+        className="small-button diagnostics-test"
+        onClick={selfTest}
+        disabled={testing}
+      >
+        {testing ? "Testing..." : "Run Self-Test"}
+      </button>
+      {results && (
+        <ul className="self-test-results">
+          {results.map((result) => (
+            <li
+              key={result.name}
+              className={result.ok ? "self-test-ok" : "self-test-failed"}
+            >
+              <span>
+                {result.ok ? "✅" : "❌"} {result.name}
+              </span>
+              <span className="self-test-detail">
+                {result.detail} · {Math.round(result.durationMs)} ms
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="queue-heading">Connection history</div>
+      {diagnostics.history.length === 0 ? (
+        <div className="queue-empty">No status changes yet</div>
+      ) : (
+        <ul className="connection-history">
+          {diagnostics.history.map((entry, index) => (
+            <li key={`${entry.at.getTime()}-${index}`}>
+              <span className="event-time">
+                {entry.at.toLocaleTimeString()}
+              </span>
+              {describeStatus(entry.status)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default DiagnosticsPanel;
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { replayablePayload, type EventRecord } from "./eventHistory";
+import type { SoundPayload, VideoPayload } from "./serverEvents";
+
+function formatPreciseTime(timestamp: Date) {
+  const time = timestamp.toLocaleTimeString([], { hour12: false });
+  const ms = timestamp.getMilliseconds().toString().padStart(3, "0");
+  return `${timestamp.toLocaleDateString()} ${time}.${ms}`;
+}
+
+interface EventDetailDrawerProps {
+  event: EventRecord;
+  /** Shown in place of the raw channel id when known. */
+  channelName?: string;
+  onClose: () => void;
+  /** Without replay handlers the drawer is read-only. */
+  onReplaySound?: (payload: SoundPayload) => void;
+  onReplayVideo?: (payload: VideoPayload) => Promise<void>;
+}
+
+function EventDetailDrawer({
+  event,
+  channelName,
+  onClose,
+  onReplaySound,
+  onReplayVideo,
+}: EventDetailDrawerProps) {
+  const [replayState, setReplayState] = useState<
+    "idle" | "sending" | "sent" | "failed"
+  >("idle");
+  const payload = replayablePayload(event);
+  const canReplay =
+    payload?.kind === "sound" ? !!onReplaySound : !!onReplayVideo;
+  const replay = canReplay ? payload : null;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const handleReplay = () => {
+    if (!replay) return;
+    if (replay.kind === "sound") {
+      onReplaySound?.(replay.payload);
+      setReplayState("sent");
+      return;
+    }
+    setReplayState("sending");
+    onReplayVideo?.(replay.payload)
+      .then(() => setReplayState("sent"))
+      .catch(() => setReplayState("failed"));
+  };
+
+  return (
+    <div className="drawer-backdrop" onClick={onClose}>
+      <aside
+        className="drawer"
+        role="dialog"
+        aria-label="Event details"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h3>Event Details</h3>
+          <button className="small-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <dl className="detail-list">
+          <dt>Type</dt>
+          <dd>
+            <span className={`detail-type event-${event.type}`}>
+              {event.type}
+            </span>
+          </dd>
+          {event.channel && (
+            <>
+              <dt>Channel</dt>
+              <dd>{channelName || event.channel}</dd>
+            </>
+          )}
+          <dt>Time</dt>
+          <dd className="detail-mono">{formatPreciseTime(event.timestamp)}</dd>
+          <dt>ISO</dt>
+          <dd className="detail-mono">{event.timestamp.toISOString()}</dd>
+          <dt>Description</dt>
+          <dd>{event.description}</dd>
+        </dl>
+
+        <div className="detail-label">Payload</div>
+        <pre className="detail-payload">
+          {event.data === undefined
+            ? "No payload"
+            : JSON.stringify(event.data, null, 2)}
+        </pre>
+
+        {replay && (
+          <div className="drawer-actions">
+            <button
+              className="replay-button"
+              onClick={handleReplay}
+              disabled={replayState === "sending"}
+            >
+              {replay.kind === "sound" ? "Replay Sound" : "Replay on Overlay"}
+            </button>
+            <span className="replay-status">
+              {replayState === "sending" && "Sending..."}
+              {replayState === "sent" &&
+                (replay.kind === "sound" ? "Queued locally" : "Sent to overlay")}
+              {replayState === "failed" && "Replay failed"}
+            </span>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+export default EventDetailDrawer;
@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import {
+  downloadFile,
+  emptyHistoryFilter,
+  eventsToCsv,
+  eventsToJson,
+  filterEvents,
+  type EventRecord,
+  type HistoryFilter,
+  type HistoryRetention,
+} from "./eventHistory";
+import RetentionFields from "./RetentionFields";
+
+// Rendering thousands of rows makes the dashboard sluggish mid-stream.
+const MAX_RENDERED = 200;
+
+function formatEventTime(timestamp: Date) {
+  return timestamp.toDateString() === new Date().toDateString()
+    ? timestamp.toLocaleTimeString()
+    : timestamp.toLocaleString();
+}
+
+interface EventHistoryPanelProps {
+  title?: string;
+  events: EventRecord[];
+  /** Display names by channel id; adds a channel filter and tags. */
+  channelNames?: Record<string, string>;
+  retention: HistoryRetention;
+  onRetentionChange: (retention: HistoryRetention) => void;
+  onClear: () => void;
+  onSelect: (event: EventRecord) => void;
+}
+
+function EventHistoryPanel({
+  title = "Event History",
+  events,
+  channelNames,
+  retention,
+  onRetentionChange,
+  onClear,
+  onSelect,
+}: EventHistoryPanelProps) {
+  const [filter, setFilter] = useState<HistoryFilter>(emptyHistoryFilter);
+  const [showFilters, setShowFilters] = useState<boolean>(false);
+
+  const types = useMemo(
+    () => Array.from(new Set(events.map((event) => event.type))).sort(),
+    [events]
+  );
+  const filtered = useMemo(
+    () => filterEvents(events, filter),
+    [events, filter]
+  );
+
+  const updateFilter = (changes: Partial<HistoryFilter>) =>
+    setFilter((prev) => ({ ...prev, ...changes }));
+
+  const exportAs = (format: "csv" | "json") => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    if (format === "csv") {
+      downloadFile(`hlp-events-${stamp}.csv`, eventsToCsv(filtered), "text/csv");
+    } else {
+      downloadFile(
+        `hlp-events-${stamp}.json`,
+        eventsToJson(filtered),
+        "application/json"
+      );
+    }
+  };
+
+  return (
+    <div className="events-section">
+      <div className="events-header">
+        <h3>{title}</h3>
+        <div className="events-actions">
+          <button
+            className="small-button"
+            onClick={() => setShowFilters(!showFilters)}
+          >
+            {showFilters ? "Hide Filters" : "Filters"}
+          </button>
+          <button className="small-button" onClick={() => exportAs("csv")}>
+            CSV
+          </button>
+          <button className="small-button" onClick={() => exportAs("json")}>
+            JSON
+          </button>
+          <button className="clear-button" onClick={onClear}>
+            Clear History
+          </button>
+        </div>
+      </div>
+
+      <input
+        type="search"
+        className="text-input history-search"
+        placeholder="Search events..."
+        value={filter.search}
+        onChange={(e) => updateFilter({ search: e.target.value })}
+      />
+
+      {showFilters && (
+        <div className="history-filters">
+          <select
+            className="select-input"
+            value={filter.type}
+            onChange={(e) => updateFilter({ type: e.target.value })}
+          >
+            <option value="">All types</option>
+            {types.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          {channelNames && (
+            <select
+              className="select-input"
+              value={filter.channel}
+              onChange={(e) => updateFilter({ channel: e.target.value })}
+            >
+              <option value="">All channels</option>
+              {Object.entries(channelNames).map(([id, name]) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            className="text-input"
+            placeholder="Username"
+            value={filter.username}
+            onChange={(e) => updateFilter({ username: e.target.value })}
+          />
+          <input
+            className="text-input"
+            placeholder="Reward name"
+            value={filter.rewardName}
+            onChange={(e) => updateFilter({ rewardName: e.target.value })}
+          />
+          <label className="filter-field">
+            From
+            <input
+              type="datetime-local"
+              className="text-input"
+              value={filter.from}
+              onChange={(e) => updateFilter({ from: e.target.value })}
+            />
+          </label>
+          <label className="filter-field">
+            To
+            <input
+              type="datetime-local"
+              className="text-input"
+              value={filter.to}
+              onChange={(e) => updateFilter({ to: e.target.value })}
+            />
+          </label>
+          <RetentionFields
+            retention={retention}
+            onChange={onRetentionChange}
+          />
+          <button
+            className="small-button"
+            onClick={() => setFilter(emptyHistoryFilter)}
+          >
+            Reset Filters
+          </button>
+        </div>
+      )}
+
+      <div className="history-count">
+        {filtered.length === events.length
+          ? `${events.length} events`
+          : `${filtered.length} of ${events.length} events`}
+        {filtered.length > MAX_RENDERED && ` (showing latest ${MAX_RENDERED})`}
+      </div>
+
+      <div className="events-container">
+        {filtered.length === 0 ? (
+          <div className="no-events">
+            {events.length === 0 ? "No events yet..." : "No matching events"}
+          </div>
+        ) : (
+          filtered.slice(0, MAX_RENDERED).map((event) => (
+            <div
+              key={event.id}
+              className={`event-item event-${event.type}`}
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelect(event)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") onSelect(event);
+              }}
+            >
+              <div className="event-time">{formatEventTime(event.timestamp)}</div>
+              <div className="event-content">
+                <div className="event-type">
+                  {event.type}
+                  {channelNames && event.channel && (
+                    <span className="event-channel">
+                      {channelNames[event.channel] ?? event.channel}
+                    </span>
+                  )}
+                </div>
+                <div className="event-description">{event.description}</div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default EventHistoryPanel;
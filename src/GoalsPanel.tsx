@@ -0,0 +1,149 @@
+import { useState } from "react";
+import {
+  addGoal,
+  adjustGoal,
+  isComplete,
+  publishGoal,
+  removeGoal,
+  resetGoal,
+  useGoals,
+  type Goal,
+} from "./goals";
+
+interface GoalsPanelProps {
+  onLog: (type: string, description: string, data?: unknown) => void;
+}
+
+function GoalsPanel({ onLog }: GoalsPanelProps) {
+  const goals = useGoals();
+  const [label, setLabel] = useState("");
+  const [rewardName, setRewardName] = useState("");
+  const [target, setTarget] = useState(50);
+
+  const publish = (goal: Goal | null, removed = false) => {
+    if (!goal) return;
+    publishGoal(goal, removed).catch((error: Error) =>
+      onLog("error", `Could not update goals overlay: ${error.message}`)
+    );
+  };
+
+  const create = () => {
+    const goal = addGoal({ label, rewardName, target });
+    onLog("system", `Goal added: ${goal.label} (${goal.target})`, goal);
+    publish(goal);
+    setLabel("");
+    setRewardName("");
+  };
+
+  const reset = (goal: Goal) => {
+    publish(resetGoal(goal.id));
+    onLog("system", `Goal reset: ${goal.label}`, goal);
+  };
+
+  const remove = (goal: Goal) => {
+    publish(removeGoal(goal.id), true);
+    onLog("system", `Goal removed: ${goal.label}`, goal);
+  };
+
+  return (
+    <div className="control-card">
+      <h3>Goals</h3>
+      {goals.length === 0 ? (
+        <div className="queue-empty">No goals yet</div>
+      ) : (
+        <ul className="goal-list">
+          {goals.map((goal) => (
+            <li
+              key={goal.id}
+              className={`goal-item${isComplete(goal) ? " complete" : ""}`}
+            >
+              <div className="goal-header">
+                <span className="goal-label">{goal.label}</span>
+                <span className="goal-count">
+                  {goal.count} / {goal.target}
+                </span>
+              </div>
+              <div className="goal-bar">
+                <div
+                  className="goal-bar-fill"
+                  style={{
+                    width: `${Math.min(100, (goal.count / goal.target) * 100)}%`,
+                  }}
+                />
+              </div>
+              <div className="goal-actions">
+                <span className="goal-reward">
+                  {goal.rewardName || "All redemptions"}
+                </span>
+                <button
+                  className="small-button"
+                  onClick={() => publish(adjustGoal(goal.id, -1))}
+                  disabled={goal.count === 0}
+                  aria-label={`Remove one from ${goal.label}`}
+                >
+                  −1
+                </button>
+                <button
+                  className="small-button"
+                  onClick={() => publish(adjustGoal(goal.id, 1))}
+                  aria-label={`Add one to ${goal.label}`}
+                >
+                  +1
+                </button>
+                <button className="small-button" onClick={() => reset(goal)}>
+                  Reset
+                </button>
+                <button className="small-button" onClick={() => remove(goal)}>
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="goal-form">
+        <input
+          className="text-input"
+          placeholder="Label, e.g. Hydrate challenge"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <input
+          className="text-input"
+          placeholder="Reward (empty = all)"
+          value={rewardName}
+          onChange={(e) => setRewardName(e.target.value)}
+        />
+        <input
+          type="number"
+          className="text-input goal-target"
+          min={1}
+          value={target}
+          onChange={(e) => setTarget(Number(e.target.value))}
+          aria-label="Target"
+        />
+        <button
+          className="small-button"
+          onClick={create}
+          disabled={!label.trim() && !rewardName.trim()}
+        >
+          Add Goal
+        </button>
+      </div>
+
+      {goals.length > 0 && (
+        <div className="events-actions">
+          <button
+            className="small-button"
+            onClick={() => goals.forEach((goal) => publish(goal))}
+          >
+            Resend to Overlays
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GoalsPanel;
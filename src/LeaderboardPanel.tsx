@@ -0,0 +1,167 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { EventRecord } from "./eventHistory";
+import {
+  buildLeaderboard,
+  leaderboardScopes,
+  publishLeaderboard,
+  scopeEvents,
+  scopeLabels,
+  sortLeaderboard,
+  toLeaderboardRows,
+  type LeaderboardScope,
+  type LeaderboardSort,
+} from "./leaderboard";
+import { updateSettings, useSettings } from "./settings";
+
+const VISIBLE_ROWS = 10;
+
+const columns: { sort: LeaderboardSort; label: string }[] = [
+  { sort: "name", label: "Viewer" },
+  { sort: "redemptions", label: "Redemptions" },
+  { sort: "recent", label: "Last" },
+];
+
+interface LeaderboardPanelProps {
+  /** Persisted event history of the channel, newest first. */
+  events: EventRecord[];
+  onLog: (type: string, description: string, data?: unknown) => void;
+}
+
+function LeaderboardPanel({ events, onLog }: LeaderboardPanelProps) {
+  const { leaderboardResets: resets } = useSettings();
+  const [scope, setScope] = useState<LeaderboardScope>("session");
+  const [sort, setSort] = useState<LeaderboardSort>("redemptions");
+  const [showAll, setShowAll] = useState(false);
+
+  const boards = useMemo(
+    () =>
+      Object.fromEntries(
+        leaderboardScopes.map((name) => [
+          name,
+          buildLeaderboard(scopeEvents(events, name, resets)),
+        ])
+      ) as Record<LeaderboardScope, ReturnType<typeof buildLeaderboard>>,
+    [events, resets]
+  );
+
+  // Keep the leaderboard overlay in step; only changed scopes are resent.
+  // Starts as empty so the overlay keeps its rows while the history loads.
+  const publishedRef = useRef<Record<LeaderboardScope, string>>({
+    session: "[]",
+    "all-time": "[]",
+  });
+  useEffect(() => {
+    leaderboardScopes.forEach((name) => {
+      const rows = toLeaderboardRows(boards[name]);
+      const serialized = JSON.stringify(rows);
+      if (publishedRef.current[name] === serialized) return;
+      publishedRef.current[name] = serialized;
+      publishLeaderboard(name, rows).catch((error: Error) =>
+        onLog("error", `Could not update leaderboard overlay: ${error.message}`)
+      );
+    });
+  }, [boards, onLog]);
+
+  // Ranks always follow the redemption count, whatever the sort.
+  const ranks = new Map(
+    boards[scope].map((entry, index) => [entry.username, index + 1])
+  );
+  const entries = sortLeaderboard(boards[scope], sort);
+  const visible = showAll ? entries : entries.slice(0, VISIBLE_ROWS);
+
+  const reset = () => {
+    const label = scopeLabels[scope].toLowerCase();
+    if (!window.confirm(`Reset the ${label} leaderboard?`)) return;
+    const now = Date.now();
+    updateSettings({
+      leaderboardResets:
+        scope === "all-time"
+          ? { session: now, "all-time": now }
+          : { ...resets, session: now },
+    });
+    onLog("system", `Leaderboard reset: ${scopeLabels[scope]}`);
+  };
+
+  return (
+    <div className="control-card">
+      <h3>Leaderboard</h3>
+      <div className="queue-settings">
+        <select
+          className="select-input"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as LeaderboardScope)}
+          aria-label="Leaderboard period"
+        >
+          {leaderboardScopes.map((name) => (
+            <option key={name} value={name}>
+              {scopeLabels[name]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="queue-empty">No redemptions yet</div>
+      ) : (
+        <table className="sessions-table leaderboard-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              {columns.map((column) => (
+                <th
+                  key={column.sort}
+                  aria-sort={
+                    column.sort === sort
+                      ? column.sort === "name"
+                        ? "ascending"
+                        : "descending"
+                      : "none"
+                  }
+                >
+                  <button
+                    className="leaderboard-sort"
+                    onClick={() => setSort(column.sort)}
+                  >
+                    {column.label}
+                    {column.sort === sort && " ▾"}
+                  </button>
+                </th>
+              ))}
+              <th>Favorite</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((entry) => (
+              <tr key={entry.username}>
+                <td>{ranks.get(entry.username)}</td>
+                <td className="leaderboard-user">{entry.username}</td>
+                <td title={`${entry.sounds} sounds, ${entry.videos} videos`}>
+                  {entry.redemptions}
+                </td>
+                <td>{entry.lastRedeemed.toLocaleTimeString()}</td>
+                <td>{entry.favoriteReward}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="events-actions media-cache-actions">
+        {entries.length > VISIBLE_ROWS && (
+          <button className="small-button" onClick={() => setShowAll(!showAll)}>
+            {showAll ? "Show Top 10" : `Show All ${entries.length}`}
+          </button>
+        )}
+        <button
+          className="small-button"
+          onClick={reset}
+          disabled={entries.length === 0}
+        >
+          Reset {scopeLabels[scope]}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default LeaderboardPanel;
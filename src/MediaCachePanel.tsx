@@ -0,0 +1,92 @@
+import {
+  clearAssetCache,
+  formatBytes,
+  preloadCatalog,
+  useAssetCache,
+  type AssetCacheState,
+} from "./assetCache";
+
+const statusLabels: Record<AssetCacheState["status"], string> = {
+  unsupported: "Unavailable (needs HTTPS or localhost)",
+  idle: "Not preloaded",
+  preloading: "Preloading...",
+  ready: "Ready",
+};
+
+function MediaCachePanel() {
+  const cache = useAssetCache();
+  const busy = cache.status === "preloading";
+
+  return (
+    <div className="control-card">
+      <h3>Media Cache</h3>
+      <div className="diagnostics-grid">
+        <div className="diagnostics-item">
+          <span className="diagnostics-label">Status</span>
+          <span className="diagnostics-value">
+            {statusLabels[cache.status]}
+          </span>
+        </div>
+        <div className="diagnostics-item">
+          <span className="diagnostics-label">Cached</span>
+          <span className="diagnostics-value">
+            {cache.cached} / {cache.total}
+          </span>
+        </div>
+        <div className="diagnostics-item">
+          <span className="diagnostics-label">Size</span>
+          <span className="diagnostics-value">{formatBytes(cache.bytes)}</span>
+        </div>
+      </div>
+
+      {cache.catalogErrors.map((error) => (
+        <div key={error} className="settings-hint">
+          Could not list media: {error}
+        </div>
+      ))}
+
+      {cache.failures.length > 0 && (
+        <>
+          <div className="queue-heading">
+            Failed downloads ({cache.failures.length})
+          </div>
+          <ul className="self-test-results">
+            {cache.failures.map((failure) => (
+              <li key={failure.src} className="self-test-failed">
+                <span>{failure.src}</span>
+                <span className="self-test-detail">{failure.message}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div className="events-actions media-cache-actions">
+        <button
+          className="small-button"
+          onClick={() =>
+            preloadCatalog().catch((error) =>
+              console.error("Failed to preload media", error)
+            )
+          }
+          disabled={busy || cache.status === "unsupported"}
+        >
+          {cache.failures.length > 0 ? "Retry" : "Refresh"}
+        </button>
+        <button
+          className="small-button"
+          onClick={() =>
+            clearAssetCache().catch((error) =>
+              console.error("Failed to clear the media cache", error)
+            )
+          }
+          disabled={busy || cache.cached === 0}
+        >
+          Clear Cache
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default MediaCachePanel;
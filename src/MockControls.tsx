@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import {
+  dropMockConnections,
+  emitRandomRedemption,
+  setMockSchedule,
+} from "./mock";
+
+const scheduleOptions = [0, 5, 10, 30];
+
+/** Drives the built-in demo server; only shown in mock mode. */
+function MockControls() {
+  const [scheduleSeconds, setScheduleSeconds] = useState(0);
+
+  useEffect(() => {
+    setMockSchedule(scheduleSeconds);
+    return () => setMockSchedule(0);
+  }, [scheduleSeconds]);
+
+  return (
+    <div className="control-card">
+      <h3>Demo Mode</h3>
+      <div className="settings-hint">
+        Events come from the built-in demo server. Overlays open in other tabs
+        of this browser receive them too.
+      </div>
+      <div className="events-actions mock-actions">
+        <button
+          className="small-button"
+          onClick={() => emitRandomRedemption("sound", false)}
+        >
+          Sound
+        </button>
+        <button
+          className="small-button"
+          onClick={() => emitRandomRedemption("sound", true)}
+        >
+          Sound + Message
+        </button>
+        <button
+          className="small-button"
+          onClick={() => emitRandomRedemption("video")}
+        >
+          Video
+        </button>
+        <button className="small-button" onClick={dropMockConnections}>
+          Drop Connection
+        </button>
+      </div>
+      <label className="filter-field">
+        Random redemptions
+        <select
+          className="select-input"
+          value={scheduleSeconds}
+          onChange={(e) => setScheduleSeconds(Number(e.target.value))}
+        >
+          {scheduleOptions.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds === 0 ? "Off" : `Every ${seconds}s`}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
+
+export default MockControls;
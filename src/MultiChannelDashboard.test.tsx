@@ -0,0 +1,35 @@
+import { act, render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { loadEvents } from "./eventHistory";
+import MultiChannelDashboard from "./MultiChannelDashboard";
+import { emit, openStream, testSession } from "./test/helpers";
+
+describe("MultiChannelDashboard", () => {
+  it("shows redemptions without storing a second copy", async () => {
+    render(<MultiChannelDashboard session={testSession} />);
+    const source = await openStream();
+
+    emit(source, "play-sound", {
+      src: "/sounds/airhorn.mp3",
+      filename: "airhorn.mp3",
+      username: "viewer1",
+      rewardName: "Airhorn",
+    });
+
+    expect(
+      (await screen.findAllByText("Sound: airhorn.mp3")).length
+    ).toBeGreaterThan(0);
+    expect(await loadEvents()).toEqual([]);
+  });
+
+  it("logs payloads that fail validation", async () => {
+    render(<MultiChannelDashboard session={testSession} />);
+    const source = await openStream();
+
+    act(() => source.emit("play-sound", { filename: "airhorn.mp3" }));
+
+    expect(
+      (await screen.findAllByText(/Invalid play-sound payload/)).length
+    ).toBeGreaterThan(0);
+  });
+});
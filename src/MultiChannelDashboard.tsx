@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { signOut, type Session } from "./auth";
+import ChannelPanel from "./ChannelPanel";
+import EventDetailDrawer from "./EventDetailDrawer";
+import EventHistoryPanel from "./EventHistoryPanel";
+import {
+  clearEvents,
+  createEventRecord,
+  loadEvents,
+  type EventRecord,
+} from "./eventHistory";
+import { updateSettings, useSettings } from "./settings";
+
+interface MultiChannelDashboardProps {
+  session: Session;
+}
+
+/**
+ * Watches every channel the account can manage at once. Nothing is played
+ * here; it is meant for moderators keeping an eye on several broadcasters.
+ * The stored history is shown but never written: each channel's dashboard
+ * records its redemptions, and a second copy would count them twice in the
+ * analytics and leaderboards.
+ */
+function MultiChannelDashboard({ session }: MultiChannelDashboardProps) {
+  const { historyRetention: retention } = useSettings();
+  const [events, setEvents] = useState<EventRecord[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState<EventRecord | null>(null);
+  const maxEntriesRef = useRef(retention.maxEntries);
+  maxEntriesRef.current = retention.maxEntries;
+
+  const channelNames = useMemo(
+    () =>
+      Object.fromEntries(
+        session.channels.map((channel) => [channel.id, channel.displayName])
+      ),
+    [session.channels]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEvents()
+      .then((stored) => {
+        if (cancelled) return;
+        const tagged = stored.filter(
+          (event) => event.channel && event.channel in channelNames
+        );
+        setEvents((prev) => {
+          const ids = new Set(prev.map((event) => event.id));
+          return [...prev, ...tagged.filter((event) => !ids.has(event.id))];
+        });
+      })
+      .catch((error) => console.error("Failed to load event history", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [channelNames]);
+
+  const addEvent = useCallback(
+    (channelId: string, type: string, description: string, data?: unknown) => {
+      const event = createEventRecord(type, description, data, channelId);
+      setEvents((prev) => [event, ...prev.slice(0, maxEntriesRef.current - 1)]);
+    },
+    []
+  );
+
+  const clearHistory = () => {
+    Promise.all(
+      session.channels.map((channel) => clearEvents(channel.id))
+    ).catch((error) => console.error("Failed to clear event history", error));
+    setEvents([]);
+  };
+
+  return (
+    <div className="app">
+      <header className="header">
+        <div className="header-content">
+          <h1 className="title">
+            <span className="title-icon">📡</span>
+            All Channels
+          </h1>
+          <div className="header-actions">
+            <div className="nav-links">
+              <a href="/" className="nav-link">
+                Dashboard
+              </a>
+              <a href="/settings" className="nav-link">
+                Settings
+              </a>
+            </div>
+            <button className="small-button" onClick={signOut}>
+              Sign out {session.user.displayName}
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="main">
+        <div className="channel-grid">
+          {session.channels.map((channel) => (
+            <ChannelPanel
+              key={channel.id}
+              channel={channel}
+              events={events.filter((event) => event.channel === channel.id)}
+              onLog={addEvent}
+              onSelect={setSelectedEvent}
+            />
+          ))}
+        </div>
+
+        <EventHistoryPanel
+          title="Merged Timeline"
+          events={events}
+          channelNames={channelNames}
+          retention={retention}
+          onRetentionChange={(historyRetention) =>
+            updateSettings({ historyRetention })
+          }
+          onClear={clearHistory}
+          onSelect={setSelectedEvent}
+        />
+      </main>
+
+      {selectedEvent && (
+        <EventDetailDrawer
+          event={selectedEvent}
+          channelName={
+            selectedEvent.channel && channelNames[selectedEvent.channel]
+          }
+          onClose={() => setSelectedEvent(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default MultiChannelDashboard;
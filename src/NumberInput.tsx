@@ -0,0 +1,60 @@
+import { useState } from "react";
+
+interface NumberInputProps {
+  value: number;
+  min: number;
+  max: number;
+  /** Rounds to whole numbers. */
+  integer?: boolean;
+  step?: number;
+  className?: string;
+  onChange: (value: number) => void;
+}
+
+/**
+ * A number setting that is only saved on blur or Enter, clamped to
+ * `min`–`max` the way `normalizeSettings` clamps it on load. Clearing the
+ * field or typing a value out of range never takes effect half-typed.
+ */
+function NumberInput({
+  value,
+  min,
+  max,
+  integer = false,
+  step,
+  className,
+  onChange,
+}: NumberInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const apply = () => {
+    if (draft === null) return;
+    const parsed = Number(draft);
+    if (draft.trim() !== "" && Number.isFinite(parsed)) {
+      const next = Math.min(
+        max,
+        Math.max(min, integer ? Math.round(parsed) : parsed)
+      );
+      if (next !== value) onChange(next);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="number"
+      className={className}
+      min={min}
+      max={max}
+      step={step}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={apply}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") apply();
+      }}
+    />
+  );
+}
+
+export default NumberInput;
@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from "react";
+import { playAudioClip } from "./audio";
+import { mediaUrl } from "./assetCache";
+import type { ModerationDecision, PendingRedemption } from "./moderation";
+import type { PlaybackHandle } from "./playbackQueue";
+import { useSettings } from "./settings";
+
+interface PendingRedemptionsProps {
+  pending: PendingRedemption[];
+  onDecide: (id: string, decision: ModerationDecision) => void;
+  onBlock: (username: string) => void;
+}
+
+function PendingRedemptions({
+  pending,
+  onDecide,
+  onBlock,
+}: PendingRedemptionsProps) {
+  const { channels } = useSettings();
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const previewRef = useRef<PlaybackHandle | null>(null);
+
+  useEffect(() => () => previewRef.current?.stop(), []);
+
+  const stopPreview = () => {
+    previewRef.current?.stop();
+    previewRef.current = null;
+    setPreviewing(null);
+  };
+
+  const preview = (entry: PendingRedemption) => {
+    if (previewing === entry.id) {
+      stopPreview();
+      return;
+    }
+    stopPreview();
+    setPreviewing(entry.id);
+    if (entry.redemption.kind !== "sound") return;
+
+    // Like soundboard previews, only the broadcaster hears this.
+    const handle = playAudioClip(
+      mediaUrl(entry.redemption.payload.src),
+      channels.monitor.volume,
+      undefined,
+      channels.monitor.deviceId
+    );
+    previewRef.current = handle;
+    handle.finished.then(() => {
+      if (previewRef.current === handle) {
+        previewRef.current = null;
+        setPreviewing(null);
+      }
+    });
+  };
+
+  const decide = (entry: PendingRedemption, decision: ModerationDecision) => {
+    if (previewing === entry.id) stopPreview();
+    onDecide(entry.id, decision);
+  };
+
+  if (pending.length === 0) {
+    return <div className="queue-empty">Nothing waiting for approval</div>;
+  }
+
+  return (
+    <div className="pending-list">
+      {pending.map((entry) => {
+        const { kind, payload } = entry.redemption;
+        const { username } = payload;
+        return (
+          <div key={entry.id} className={`pending-item pending-${kind}`}>
+            <div className="pending-info">
+              <span className="pending-user">
+                {username ?? "Unknown user"}
+              </span>
+              <span className="pending-reward">
+                {payload.rewardName ??
+                  (kind === "sound"
+                    ? entry.redemption.payload.filename
+                    : payload.src)}
+              </span>
+              <span className="pending-time">
+                {kind} · {entry.receivedAt.toLocaleTimeString()}
+              </span>
+            </div>
+            {previewing === entry.id && kind === "video" && (
+              <video
+                className="pending-video"
+                src={mediaUrl(payload.src)}
+                autoPlay
+                controls
+                onEnded={() => setPreviewing(null)}
+              />
+            )}
+            <div className="pending-actions">
+              <button className="small-button" onClick={() => preview(entry)}>
+                {previewing === entry.id ? "Stop" : "Preview"}
+              </button>
+              <button
+                className="small-button approve-button"
+                onClick={() => decide(entry, "approved")}
+              >
+                Approve
+              </button>
+              <button
+                className="small-button"
+                onClick={() => decide(entry, "rejected")}
+              >
+                Reject
+              </button>
+              <button
+                className="small-button reject-button"
+                onClick={() => decide(entry, "refunded")}
+              >
+                Reject &amp; Refund
+              </button>
+              {username && (
+                <button
+                  className="small-button reject-button"
+                  onClick={() => onBlock(username)}
+                  title="Reject everything from this user from now on"
+                >
+                  Block
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default PendingRedemptions;
@@ -0,0 +1,44 @@
+import type { RankEntry } from "./analytics";
+
+interface RankingChartProps {
+  entries: RankEntry[];
+  emptyLabel?: string;
+}
+
+/** Horizontal bars scaled to the top entry. */
+function RankingChart({
+  entries,
+  emptyLabel = "No data yet",
+}: RankingChartProps) {
+  if (entries.length === 0) {
+    return <div className="chart-empty">{emptyLabel}</div>;
+  }
+  const max = entries[0].count;
+
+  return (
+    <ol className="ranking">
+      {entries.map((entry) => (
+        <li key={entry.label} className="ranking-row">
+          <span className="ranking-label" title={entry.label}>
+            {entry.label}
+          </span>
+          <svg
+            className="ranking-bar"
+            viewBox="0 0 100 10"
+            preserveAspectRatio="none"
+          >
+            <rect
+              className="chart-bar"
+              width={(entry.count / max) * 100}
+              height={10}
+              rx={2}
+            />
+          </svg>
+          <span className="ranking-count">{entry.count}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default RankingChart;
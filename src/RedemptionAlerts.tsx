@@ -0,0 +1,50 @@
+import { renderAlertTemplate, type ActiveAlert, type AlertConfig } from "./alerts";
+
+interface RedemptionAlertsProps {
+  alerts: ActiveAlert[];
+  config: AlertConfig;
+  /** Pin to a corner of the window instead of flowing with the parent. */
+  floating?: boolean;
+}
+
+function RedemptionAlerts({
+  alerts,
+  config,
+  floating = true,
+}: RedemptionAlertsProps) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div
+      className={`alert-stack${
+        floating ? ` alert-floating alert-pos-${config.position}` : ""
+      }`}
+    >
+      {alerts.map((alert) => {
+        const [title, ...lines] = renderAlertTemplate(config.template, alert);
+        const animation = alert.exiting
+          ? `alert-exit-${config.exit}`
+          : `alert-enter-${config.enter}`;
+        return (
+          <div
+            key={alert.entryId}
+            className={`redemption-alert alert-theme-${config.theme} ${animation}`}
+            role="status"
+          >
+            {alert.imageUrl && (
+              <img className="alert-image" src={alert.imageUrl} alt="" />
+            )}
+            <div className="alert-title">{title}</div>
+            {lines.map((line, index) => (
+              <div key={index} className="alert-body">
+                {line}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default RedemptionAlerts;
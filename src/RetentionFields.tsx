@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { shrinksRetention, type HistoryRetention } from "./eventHistory";
+
+const MIN_ENTRIES = 100;
+
+interface RetentionFieldsProps {
+  retention: HistoryRetention;
+  onChange: (retention: HistoryRetention) => void;
+  /** Label for the age field. */
+  ageLabel?: string;
+  /** Label for the record count field. */
+  entriesLabel?: string;
+}
+
+type Draft = Record<keyof HistoryRetention, string>;
+
+/** Reads a draft, or null while a field is empty or out of range. */
+function parseDraft(draft: Draft): HistoryRetention | null {
+  const maxAgeDays = Number(draft.maxAgeDays);
+  const maxEntries = Number(draft.maxEntries);
+  if (draft.maxAgeDays.trim() === "" || draft.maxEntries.trim() === "") {
+    return null;
+  }
+  if (!Number.isInteger(maxAgeDays) || maxAgeDays < 0) return null;
+  if (!Number.isInteger(maxEntries) || maxEntries < MIN_ENTRIES) return null;
+  return { maxAgeDays, maxEntries };
+}
+
+/**
+ * Retention inputs that only take effect on Apply. Every change prunes the
+ * stored history, so half-typed values must never reach `onChange`, and
+ * shrinking the window is confirmed first.
+ */
+function RetentionFields({
+  retention,
+  onChange,
+  ageLabel = "Keep days",
+  entriesLabel = "Keep events",
+}: RetentionFieldsProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const shown: Draft = draft ?? {
+    maxAgeDays: String(retention.maxAgeDays),
+    maxEntries: String(retention.maxEntries),
+  };
+  const next = parseDraft(shown);
+  const changed =
+    next !== null &&
+    (next.maxAgeDays !== retention.maxAgeDays ||
+      next.maxEntries !== retention.maxEntries);
+
+  const update = (changes: Partial<Draft>) =>
+    setDraft({ ...shown, ...changes });
+
+  const apply = () => {
+    if (!next || !changed) return;
+    if (
+      shrinksRetention(retention, next) &&
+      !window.confirm(
+        "Events outside the new limits are deleted permanently. Continue?"
+      )
+    ) {
+      return;
+    }
+    onChange(next);
+    setDraft(null);
+  };
+
+  return (
+    <>
+      <label className="filter-field">
+        {ageLabel}
+        <input
+          type="number"
+          className="text-input"
+          min={0}
+          value={shown.maxAgeDays}
+          onChange={(e) => update({ maxAgeDays: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && apply()}
+        />
+      </label>
+      <label className="filter-field">
+        {entriesLabel}
+        <input
+          type="number"
+          className="text-input"
+          min={MIN_ENTRIES}
+          step={100}
+          value={shown.maxEntries}
+          onChange={(e) => update({ maxEntries: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && apply()}
+        />
+      </label>
+      {draft && (
+        <div className="retention-actions">
+          <button
+            className="small-button"
+            onClick={apply}
+            disabled={!changed}
+            title={
+              next
+                ? undefined
+                : `Days must be 0 or more, events ${MIN_ENTRIES} or more`
+            }
+          >
+            Apply
+          </button>
+          <button className="small-button" onClick={() => setDraft(null)}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default RetentionFields;
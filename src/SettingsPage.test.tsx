@@ -0,0 +1,49 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { getSettings, normalizeSettings } from "./settings";
+import SettingsPage from "./SettingsPage";
+
+describe("SettingsPage", () => {
+  it("rejects an API base that is not a full URL", () => {
+    render(<SettingsPage />);
+    const input = screen.getByPlaceholderText(/API base URL override/);
+    const save = () =>
+      fireEvent.click(
+        input.parentElement!.querySelector("button") as HTMLButtonElement
+      );
+
+    fireEvent.change(input, { target: { value: "api.example.com" } });
+    save();
+    expect(screen.getByText(/Enter a full URL/)).toBeDefined();
+    expect(getSettings().apiBaseOverride).toBe("");
+
+    fireEvent.change(input, { target: { value: " https://api.example.com/ " } });
+    save();
+    expect(getSettings().apiBaseOverride).toBe("https://api.example.com");
+  });
+
+  it("saves number fields on blur, clamped, and ignores a cleared field", () => {
+    render(<SettingsPage />);
+    const items = screen.getByLabelText("Feed items");
+    const scale = screen.getByLabelText("Scale");
+
+    fireEvent.change(items, { target: { value: "" } });
+    expect(getSettings().feed.maxItems).toBe(5);
+    fireEvent.blur(items);
+    expect(getSettings().feed.maxItems).toBe(5);
+
+    fireEvent.change(items, { target: { value: "-5" } });
+    fireEvent.blur(items);
+    expect(getSettings().feed.maxItems).toBe(1);
+
+    fireEvent.change(scale, { target: { value: "99" } });
+    fireEvent.keyDown(scale, { key: "Enter" });
+    expect(getSettings().overlay.scale).toBe(4);
+  });
+
+  it("drops a stored API base that is not a full URL", () => {
+    expect(
+      normalizeSettings({ apiBaseOverride: "api.example.com" }).apiBaseOverride
+    ).toBe("");
+  });
+});
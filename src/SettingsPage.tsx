@@ -0,0 +1,827 @@
+import { useRef, useState } from "react";
+import {
+  alertAnimations,
+  alertQuery,
+  alertThemes,
+  useAlertQueue,
+  type AlertAnimation,
+  type AlertConfig,
+  type AlertTheme,
+} from "./alerts";
+import AudioChannelControls from "./AudioChannelControls";
+import { createOverlayToken, useAuth } from "./auth";
+import { apiBase, apiBaseSource, apiBaseSourceLabels } from "./config";
+import { downloadFile } from "./eventHistory";
+import {
+  feedEventTypes,
+  feedQuery,
+  overlayEventTypes,
+  overlayPositions,
+  overlayQuery,
+  overlayThemes,
+  type FeedConfig,
+  type OverlayConfig,
+  type OverlayPosition,
+  type OverlayTheme,
+} from "./overlays/overlayConfig";
+import { overlayRoutes } from "./overlays";
+import NumberInput from "./NumberInput";
+import { overlapPolicies, type OverlapPolicy } from "./playbackQueue";
+import RedemptionAlerts from "./RedemptionAlerts";
+import RetentionFields from "./RetentionFields";
+import ShortcutSettings from "./ShortcutSettings";
+import {
+  exportSettings,
+  importSettings,
+  normalizeApiBase,
+  resetSettings,
+  SettingsImportError,
+  updateSettings,
+  updateModeration,
+  updateTts,
+  useSettings,
+} from "./settings";
+import { normalizeUsername } from "./moderation";
+import {
+  renderAnnouncement,
+  speak,
+  ttsSupported,
+  useSpeechVoices,
+} from "./tts";
+
+function SettingsPage() {
+  const settings = useSettings();
+  const auth = useAuth();
+  const [apiDraft, setApiDraft] = useState(settings.apiBaseOverride);
+  const [blocklistDraft, setBlocklistDraft] = useState(
+    settings.moderation.blocklist.join("\n")
+  );
+  const [blockedWordsDraft, setBlockedWordsDraft] = useState(
+    settings.tts.blockedWords.join("\n")
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const preview = useAlertQueue(settings.alert);
+  const voices = useSpeechVoices();
+
+  const testVoice = () => {
+    const text = renderAnnouncement(
+      {
+        username: "TestViewer",
+        rewardName: "Hydrate",
+        message: "This is how messages will sound on stream.",
+      },
+      settings.tts
+    );
+    if (text) {
+      speak(text, settings.tts, (error) =>
+        setMessage(`Text-to-speech failed: ${error}`)
+      );
+    }
+  };
+
+  const setAlert = (changes: Partial<AlertConfig>) =>
+    updateSettings((current) => ({ alert: { ...current.alert, ...changes } }));
+
+  const setOverlay = (changes: Partial<OverlayConfig>) =>
+    updateSettings((current) => ({
+      overlay: { ...current.overlay, ...changes },
+    }));
+
+  const setFeed = (changes: Partial<FeedConfig>) =>
+    updateSettings((current) => ({ feed: { ...current.feed, ...changes } }));
+
+  const session = auth.status === "signed-in" ? auth.session : null;
+  const overlayToken = session?.overlayTokens[session.channelId];
+
+  const overlayUrl = (name: string) => {
+    let query =
+      name === "alerts" || name === "video"
+        ? `${overlayQuery(settings.overlay)}&${alertQuery(settings.alert)}`
+        : overlayQuery(settings.overlay);
+    if (name === "feed") query += `&${feedQuery(settings.feed)}`;
+    // Redemption overlays must wait for the dashboard's screening.
+    if (
+      (name === "alerts" || name === "feed" || name === "video") &&
+      settings.moderation.enabled
+    ) {
+      query += "&moderated=1";
+    }
+    if (overlayToken) {
+      query += `&${new URLSearchParams({ token: overlayToken })}`;
+    }
+    return `${window.location.origin}/overlay/${name}?${query}`;
+  };
+
+  const issueOverlayToken = () => {
+    if (!session) return;
+    createOverlayToken(session.channelId)
+      .then(() => setMessage("New overlay token issued; update your OBS sources"))
+      .catch((error: Error) =>
+        setMessage(`Could not issue an overlay token: ${error.message}`)
+      );
+  };
+
+  const copyUrl = (name: string) => {
+    navigator.clipboard
+      .writeText(overlayUrl(name))
+      .then(() => setCopied(name))
+      .catch(() => setMessage("Could not copy to the clipboard"));
+  };
+
+  const handleImport = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const imported = importSettings(text);
+        setApiDraft(imported.apiBaseOverride);
+        setBlocklistDraft(imported.moderation.blocklist.join("\n"));
+        setBlockedWordsDraft(imported.tts.blockedWords.join("\n"));
+        setMessage("Settings imported");
+      })
+      .catch((error: Error) =>
+        setMessage(
+          error instanceof SettingsImportError
+            ? `Import failed: ${error.message}`
+            : "Import failed: the file could not be read"
+        )
+      );
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Reset all settings to their defaults?")) return;
+    resetSettings();
+    setApiDraft("");
+    setBlocklistDraft("");
+    setBlockedWordsDraft("");
+    setMessage("Settings reset to defaults");
+  };
+
+  const apiChanged = apiDraft.trim() !== settings.apiBaseOverride;
+
+  return (
+    <div className="app">
+      <header className="header">
+        <div className="header-content">
+          <h1 className="title">
+            <span className="title-icon">⚙️</span>
+            Settings
+          </h1>
+          <div className="header-actions">
+            <div className="nav-links">
+              <a href="/" className="nav-link">
+                Dashboard
+              </a>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="main">
+        <div className="settings-page">
+          {message && (
+            <div className="settings-message">
+              {message}
+              <button className="small-button" onClick={() => setMessage(null)}>
+                Dismiss
+              </button>
+            </div>
+          )}
+
+          <section className="control-card">
+            <h3>Connection</h3>
+            <div className="settings-hint">
+              Currently using <code>{apiBase}</code> (
+              {apiBaseSourceLabels[apiBaseSource]}). Enter <code>mock</code> to
+              use the built-in demo server instead.
+            </div>
+            <div className="settings-row">
+              <input
+                className="text-input"
+                placeholder="API base URL override, e.g. https://api.example.com"
+                value={apiDraft}
+                onChange={(e) => setApiDraft(e.target.value)}
+              />
+              <button
+                className="small-button"
+                disabled={!apiChanged}
+                onClick={() => {
+                  const apiBaseOverride = normalizeApiBase(apiDraft);
+                  if (apiBaseOverride === null) {
+                    setMessage(
+                      "Enter a full URL such as https://api.example.com, or mock"
+                    );
+                    return;
+                  }
+                  updateSettings({ apiBaseOverride });
+                  setApiDraft(apiBaseOverride);
+                  setMessage("API base saved; reload the page to reconnect");
+                }}
+              >
+                Save
+              </button>
+            </div>
+          </section>
+
+          <section className="control-card">
+            <h3>Audio</h3>
+            <AudioChannelControls />
+            <div className="settings-grid settings-grid-spaced">
+              <label className="filter-field">
+                Overlap policy
+                <select
+                  className="select-input"
+                  value={settings.queue.policy}
+                  onChange={(e) =>
+                    updateSettings((current) => ({
+                      queue: {
+                        ...current.queue,
+                        policy: e.target.value as OverlapPolicy,
+                      },
+                    }))
+                  }
+                >
+                  {overlapPolicies.map((policy) => (
+                    <option key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="filter-field">
+                Max voices
+                <NumberInput
+                  className="text-input"
+                  min={1}
+                  max={8}
+                  integer
+                  value={settings.queue.maxVoices}
+                  onChange={(maxVoices) =>
+                    updateSettings((current) => ({
+                      queue: { ...current.queue, maxVoices },
+                    }))
+                  }
+                />
+              </label>
+            </div>
+          </section>
+
+          <section className="control-card">
+            <h3>Alerts</h3>
+            <div className="settings-grid">
+              <label className="filter-field">
+                Theme
+                <select
+                  className="select-input"
+                  value={settings.alert.theme}
+                  onChange={(e) =>
+                    setAlert({ theme: e.target.value as AlertTheme })
+                  }
+                >
+                  {alertThemes.map((theme) => (
+                    <option key={theme}>{theme}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="filter-field">
+                Position
+                <select
+                  className="select-input"
+                  value={settings.alert.position}
+                  onChange={(e) =>
+                    setAlert({ position: e.target.value as OverlayPosition })
+                  }
+                >
+                  {overlayPositions.map((position) => (
+                    <option key={position}>{position}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="filter-field">
+                Enter
+                <select
+                  className="select-input"
+                  value={settings.alert.enter}
+                  onChange={(e) =>
+                    setAlert({ enter: e.target.value as AlertAnimation })
+                  }
+                >
+                  {alertAnimations.map((animation) => (
+                    <option key={animation}>{animation}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="filter-field">
+                Exit
+                <select
+                  className="select-input"
+                  value={settings.alert.exit}
+                  onChange={(e) =>
+                    setAlert({ exit: e.target.value as AlertAnimation })
+                  }
+                >
+                  {alertAnimations.map((animation) => (
+                    <option key={animation}>{animation}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="filter-field">
+                Duration (s)
+                <NumberInput
+                  className="text-input"
+                  min={1}
+                  max={60}
+                  value={settings.alert.durationMs / 1000}
+                  onChange={(seconds) => setAlert({ durationMs: seconds * 1000 })}
+                />
+              </label>
+              <label className="filter-field">
+                Layout
+                <select
+                  className="select-input"
+                  value={settings.alert.layout}
+                  onChange={(e) =>
+                    setAlert({
+                      layout: e.target.value === "queue" ? "queue" : "stack",
+                    })
+                  }
+                >
+                  <option value="stack">stack</option>
+                  <option value="queue">queue</option>
+                </select>
+              </label>
+            </div>
+            <label className="filter-field">
+              Template
+              <textarea
+                className="text-input settings-template"
+                value={settings.alert.template}
+                onChange={(e) => setAlert({ template: e.target.value })}
+              />
+            </label>
+            <button
+              className="small-button"
+              onClick={() => preview.push("PreviewUser", "Test Reward")}
+            >
+              Preview Alert
+            </button>
+          </section>
+
+          <section className="control-card">
+            <h3>OBS Overlays</h3>
+            <div className="settings-grid">
+              <label className="filter-field">
+                Position
+                <select
+                  className="select-input"
+                  value={settings.overlay.position}
+                  onChange={(e) =>
+                    setOverlay({ position: e.target.value as OverlayPosition })
+                  }
+                >
+                  {overlayPositions.map((position) => (
+                    <option key={position}>{position}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="filter-field">
+                Theme
+                <select
+                  className="select-input"
+                  value={settings.overlay.theme}
+                  onChange={(e) =>
+                    setOverlay({ theme: e.target.value as OverlayTheme })
+                  }
+                >
+                  {overlayThemes.map((theme) => (
+                    <option key={theme}>{theme}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="filter-field">
+                Scale
+                <NumberInput
+                  className="text-input"
+                  min={0.1}
+                  max={4}
+                  step={0.1}
+                  value={settings.overlay.scale}
+                  onChange={(scale) => setOverlay({ scale })}
+                />
+              </label>
+              <label className="filter-field">
+                Overlay volume ({Math.round(settings.overlay.volume * 100)}%)
+                <input
+                  type="range"
+                  className="volume-slider"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings.overlay.volume}
+                  onChange={(e) =>
+                    setOverlay({ volume: Number(e.target.value) })
+                  }
+                />
+              </label>
+              {overlayEventTypes.map((type) => (
+                <label key={type} className="settings-check">
+                  <input
+                    type="checkbox"
+                    checked={settings.overlay.events.includes(type)}
+                    onChange={(e) =>
+                      setOverlay({
+                        events: overlayEventTypes.filter((other) =>
+                          other === type
+                            ? e.target.checked
+                            : settings.overlay.events.includes(other)
+                        ),
+                      })
+                    }
+                  />
+                  Show {type} events
+                </label>
+              ))}
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={settings.overlay.audio}
+                  onChange={(e) => setOverlay({ audio: e.target.checked })}
+                />
+                Play video audio
+              </label>
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={settings.overlay.limiter}
+                  onChange={(e) => setOverlay({ limiter: e.target.checked })}
+                />
+                Loudness limiter
+              </label>
+            </div>
+            <div className="settings-grid">
+              <label className="filter-field">
+                Feed items
+                <NumberInput
+                  className="text-input"
+                  min={1}
+                  max={50}
+                  integer
+                  value={settings.feed.maxItems}
+                  onChange={(maxItems) => setFeed({ maxItems })}
+                />
+              </label>
+              <label className="filter-field">
+                Feed fade after (s, 0 = never)
+                <NumberInput
+                  className="text-input"
+                  min={0}
+                  max={600}
+                  value={settings.feed.fadeAfterMs / 1000}
+                  onChange={(seconds) => setFeed({ fadeAfterMs: seconds * 1000 })}
+                />
+              </label>
+              {feedEventTypes.map((type) => (
+                <label key={type} className="settings-check">
+                  <input
+                    type="checkbox"
+                    checked={settings.feed.types.includes(type)}
+                    onChange={(e) =>
+                      setFeed({
+                        types: feedEventTypes.filter((other) =>
+                          other === type
+                            ? e.target.checked
+                            : settings.feed.types.includes(other)
+                        ),
+                      })
+                    }
+                  />
+                  List {type} events in the feed
+                </label>
+              ))}
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={settings.feed.background}
+                  onChange={(e) => setFeed({ background: e.target.checked })}
+                />
+                Feed item background
+              </label>
+            </div>
+            <div className="settings-row overlay-token">
+              {session ? (
+                <>
+                  <span className="settings-hint">
+                    {overlayToken
+                      ? `URLs include a read-only token for ${
+                          session.channels.find(
+                            (channel) => channel.id === session.channelId
+                          )?.displayName ?? session.channelId
+                        }. Keep them private.`
+                      : "Overlays need a read-only token to receive events."}
+                  </span>
+                  <button className="small-button" onClick={issueOverlayToken}>
+                    {overlayToken ? "Issue New Token" : "Issue Overlay Token"}
+                  </button>
+                </>
+              ) : (
+                <span className="settings-hint">
+                  <a href="/" className="inline-link">
+                    Sign in
+                  </a>{" "}
+                  to add an overlay token to these URLs.
+                </span>
+              )}
+            </div>
+            <div className="overlay-urls">
+              {Object.keys(overlayRoutes).map((name) => (
+                <div key={name} className="overlay-url">
+                  <span className="overlay-url-name">{name}</span>
+                  <input
+                    className="text-input"
+                    readOnly
+                    value={overlayUrl(name)}
+                  />
+                  <button
+                    className="small-button"
+                    onClick={() => copyUrl(name)}
+                  >
+                    {copied === name ? "Copied" : "Copy"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="control-card">
+            <h3>Moderation</h3>
+            <div className="settings-grid">
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={settings.moderation.enabled}
+                  onChange={(e) =>
+                    updateModeration({ enabled: e.target.checked })
+                  }
+                />
+                Screen redemptions
+              </label>
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={settings.moderation.holdForApproval}
+                  onChange={(e) =>
+                    updateModeration({ holdForApproval: e.target.checked })
+                  }
+                />
+                Hold for approval
+              </label>
+              <label className="filter-field">
+                Cooldown per user (s)
+                <NumberInput
+                  className="text-input"
+                  min={0}
+                  max={86400}
+                  integer
+                  value={settings.moderation.cooldownSeconds}
+                  onChange={(cooldownSeconds) =>
+                    updateModeration({ cooldownSeconds })
+                  }
+                />
+              </label>
+            </div>
+            <label className="filter-field">
+              Blocked usernames (one per line)
+              <textarea
+                className="text-input settings-template"
+                value={blocklistDraft}
+                onChange={(e) => setBlocklistDraft(e.target.value)}
+                onBlur={() =>
+                  updateModeration({
+                    blocklist: Array.from(
+                      new Set(
+                        blocklistDraft
+                          .split(/[\n,]/)
+                          .map(normalizeUsername)
+                          .filter(Boolean)
+                      )
+                    ),
+                  })
+                }
+              />
+            </label>
+            <div className="settings-hint">
+              While screening is on, add <code>moderated=1</code> to the
+              alerts, feed and video overlay URLs (the URLs above include it)
+              so they only show what the dashboard lets through. Keep the
+              dashboard open while streaming.
+            </div>
+          </section>
+
+          <section className="control-card">
+            <h3>Text-to-Speech</h3>
+            {!ttsSupported && (
+              <div className="settings-hint">
+                This browser has no speech synthesis.
+              </div>
+            )}
+            <div className="settings-grid">
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={settings.tts.enabled}
+                  onChange={(e) => updateTts({ enabled: e.target.checked })}
+                />
+                Read redemptions aloud
+              </label>
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={settings.tts.readMessages}
+                  onChange={(e) =>
+                    updateTts({ readMessages: e.target.checked })
+                  }
+                />
+                Read viewer messages
+              </label>
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={settings.tts.filterProfanity}
+                  onChange={(e) =>
+                    updateTts({ filterProfanity: e.target.checked })
+                  }
+                />
+                Bleep profanity
+              </label>
+            </div>
+            <label className="filter-field">
+              Announcement
+              <input
+                className="text-input"
+                value={settings.tts.template}
+                onChange={(e) => updateTts({ template: e.target.value })}
+              />
+            </label>
+            <div className="settings-hint">
+              Use <code>{"{user}"}</code>, <code>{"{reward}"}</code> and{" "}
+              <code>{"{message}"}</code>. Speech plays on the system default
+              output, between clips in the playback queue.
+            </div>
+            <div className="settings-grid">
+              <label className="filter-field">
+                Voice
+                <select
+                  className="select-input"
+                  value={settings.tts.voiceURI}
+                  onChange={(e) => updateTts({ voiceURI: e.target.value })}
+                >
+                  <option value="">Browser default</option>
+                  {voices.map((voice) => (
+                    <option key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="filter-field">
+                Rate: {settings.tts.rate.toFixed(1)}
+                <input
+                  type="range"
+                  min={0.5}
+                  max={2}
+                  step={0.1}
+                  value={settings.tts.rate}
+                  onChange={(e) => updateTts({ rate: Number(e.target.value) })}
+                />
+              </label>
+              <label className="filter-field">
+                Pitch: {settings.tts.pitch.toFixed(1)}
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={settings.tts.pitch}
+                  onChange={(e) => updateTts({ pitch: Number(e.target.value) })}
+                />
+              </label>
+              <label className="filter-field">
+                Volume: {Math.round(settings.tts.volume * 100)}%
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings.tts.volume}
+                  onChange={(e) =>
+                    updateTts({ volume: Number(e.target.value) })
+                  }
+                />
+              </label>
+              <label className="filter-field">
+                Max message length
+                <NumberInput
+                  className="text-input"
+                  min={10}
+                  max={500}
+                  integer
+                  value={settings.tts.maxMessageLength}
+                  onChange={(maxMessageLength) => updateTts({ maxMessageLength })}
+                />
+              </label>
+            </div>
+            <label className="filter-field">
+              Extra words to bleep (one per line)
+              <textarea
+                className="text-input settings-template"
+                value={blockedWordsDraft}
+                onChange={(e) => setBlockedWordsDraft(e.target.value)}
+                onBlur={() =>
+                  updateTts({
+                    blockedWords: Array.from(
+                      new Set(
+                        blockedWordsDraft
+                          .split(/[\n,]/)
+                          .map((word) => word.trim().toLowerCase())
+                          .filter(Boolean)
+                      )
+                    ),
+                  })
+                }
+              />
+            </label>
+            <button
+              className="small-button"
+              onClick={testVoice}
+              disabled={!ttsSupported}
+            >
+              Test Voice
+            </button>
+          </section>
+
+          <section className="control-card">
+            <h3>Keyboard Shortcuts</h3>
+            <ShortcutSettings />
+          </section>
+
+          <section className="control-card">
+            <h3>Event History</h3>
+            <div className="settings-grid">
+              <RetentionFields
+                retention={settings.historyRetention}
+                onChange={(historyRetention) =>
+                  updateSettings({ historyRetention })
+                }
+                ageLabel="Keep days (0 = forever)"
+                entriesLabel="Max records"
+              />
+            </div>
+          </section>
+
+          <section className="control-card">
+            <h3>Backup</h3>
+            <div className="settings-row">
+              <button
+                className="small-button"
+                onClick={() =>
+                  downloadFile(
+                    "hlp-settings.json",
+                    exportSettings(),
+                    "application/json"
+                  )
+                }
+              >
+                Export JSON
+              </button>
+              <button
+                className="small-button"
+                onClick={() => fileRef.current?.click()}
+              >
+                Import JSON
+              </button>
+              <input
+                ref={fileRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = "";
+                }}
+              />
+              <button className="clear-button" onClick={handleReset}>
+                Reset to Defaults
+              </button>
+            </div>
+          </section>
+        </div>
+      </main>
+
+      <RedemptionAlerts alerts={preview.alerts} config={settings.alert} />
+    </div>
+  );
+}
+
+export default SettingsPage;
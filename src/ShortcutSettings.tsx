@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { comboFromEvent, formatCombo } from "./hotkeys";
+import { updateSettings, updateShortcut, useSettings } from "./settings";
+import {
+  defaultKeymap,
+  shortcutActions,
+  shortcutLabels,
+  type ShortcutAction,
+} from "./shortcuts";
+
+function ShortcutSettings() {
+  const { shortcuts } = useSettings();
+  const [binding, setBinding] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (!binding) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      e.preventDefault();
+      if (combo !== "Escape") updateShortcut(binding, combo);
+      setBinding(null);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [binding]);
+
+  return (
+    <>
+      <div className="shortcut-settings">
+        {shortcutActions.map((action) => (
+          <div key={action} className="shortcut-setting">
+            <span>{shortcutLabels[action]}</span>
+            <button
+              className={`small-button hotkey-button${
+                binding === action ? " binding" : ""
+              }`}
+              onClick={() => setBinding(binding === action ? null : action)}
+              aria-label={`Change shortcut: ${shortcutLabels[action]}`}
+            >
+              {binding === action
+                ? "Press a key..."
+                : shortcuts[action]
+                ? formatCombo(shortcuts[action])
+                : "Unbound"}
+            </button>
+            <button
+              className="small-button"
+              onClick={() => updateShortcut(action, "")}
+              disabled={!shortcuts[action]}
+              aria-label={`Clear shortcut: ${shortcutLabels[action]}`}
+            >
+              Clear
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="settings-hint">
+        Click a shortcut and press the new key, or Escape to cancel. A key
+        taken from another shortcut or soundboard hotkey is removed there.
+      </div>
+      <button
+        className="small-button"
+        onClick={() => updateSettings({ shortcuts: defaultKeymap })}
+      >
+        Reset Shortcuts
+      </button>
+    </>
+  );
+}
+
+export default ShortcutSettings;
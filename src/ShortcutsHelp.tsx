@@ -0,0 +1,60 @@
+import { Fragment, useEffect } from "react";
+import { formatCombo } from "./hotkeys";
+import { shortcutActions, shortcutLabels, type Keymap } from "./shortcuts";
+
+interface ShortcutsHelpProps {
+  keymap: Keymap;
+  onClose: () => void;
+}
+
+function ShortcutsHelp({ keymap, onClose }: ShortcutsHelpProps) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="drawer-backdrop" onClick={onClose}>
+      <aside
+        className="drawer shortcuts-help"
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="drawer-header">
+          <h3>Keyboard Shortcuts</h3>
+          <button className="small-button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        <dl className="detail-list">
+          {shortcutActions.map((action) => (
+            <Fragment key={action}>
+              <dt>{shortcutLabels[action]}</dt>
+              <dd>
+                {keymap[action] ? (
+                  <kbd className="shortcut-key">
+                    {formatCombo(keymap[action])}
+                  </kbd>
+                ) : (
+                  <span className="shortcuts-unbound">Unbound</span>
+                )}
+              </dd>
+            </Fragment>
+          ))}
+        </dl>
+
+        <p className="settings-hint">
+          Shortcuts are ignored while typing in a text field. Change them on
+          the <a href="/settings">Settings</a> page.
+        </p>
+      </aside>
+    </div>
+  );
+}
+
+export default ShortcutsHelp;
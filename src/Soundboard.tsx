@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from "react";
+import { broadcastEvent, fetchSounds, type SoundFile } from "./api";
+import { playAudioClip } from "./audio";
+import { mediaUrl } from "./assetCache";
+import { comboFromEvent, formatCombo, isTypingTarget } from "./hotkeys";
+import type { PlaybackHandle } from "./playbackQueue";
+import { unbindShortcut } from "./shortcuts";
+import {
+  updateSettings,
+  useSettings,
+  type SoundboardHotkeyAction,
+} from "./settings";
+
+const soundName = (sound: SoundFile) => sound.filename.replace(/\.[^.]+$/, "");
+
+interface SoundboardProps {
+  onLog: (type: string, description: string, data?: unknown) => void;
+}
+
+function Soundboard({ onLog }: SoundboardProps) {
+  const [sounds, setSounds] = useState<SoundFile[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<string>("");
+  const {
+    channels,
+    soundboardHotkeys: hotkeys,
+    soundboardHotkeyAction: hotkeyAction,
+  } = useSettings();
+  const [binding, setBinding] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const previewRef = useRef<PlaybackHandle | null>(null);
+
+  const loadSounds = () => {
+    setLoadError(null);
+    fetchSounds()
+      .then(setSounds)
+      .catch((error: Error) => setLoadError(error.message));
+  };
+
+  useEffect(loadSounds, []);
+
+  useEffect(() => () => previewRef.current?.stop(), []);
+
+  const preview = (sound: SoundFile) => {
+    previewRef.current?.stop();
+    if (previewing === sound.filename) {
+      setPreviewing(null);
+      return;
+    }
+    // Previews are for the broadcaster only, so they skip the stream channel
+    // and play on the monitor device even when it is muted for redemptions.
+    const handle = playAudioClip(
+      mediaUrl(sound.src),
+      channels.monitor.volume,
+      () => onLog("error", `Preview failed: ${sound.filename}`),
+      channels.monitor.deviceId
+    );
+    previewRef.current = handle;
+    setPreviewing(sound.filename);
+    handle.finished.then(() => {
+      if (previewRef.current === handle) {
+        previewRef.current = null;
+        setPreviewing(null);
+      }
+    });
+  };
+
+  // No username: a test clip is not a redemption, so moderation, goals, the
+  // feed and the leaderboard all leave it alone.
+  const broadcast = (sound: SoundFile) => {
+    broadcastEvent("play-sound", {
+      src: sound.src,
+      filename: sound.filename,
+      rewardName: soundName(sound),
+    })
+      .then(() => onLog("system", `Broadcast from soundboard: ${sound.filename}`))
+      .catch((error: Error) =>
+        onLog("error", `Soundboard broadcast failed: ${error.message}`)
+      );
+  };
+
+  const handlersRef = useRef({ preview, broadcast });
+  handlersRef.current = { preview, broadcast };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+
+      if (binding) {
+        e.preventDefault();
+        if (combo !== "Escape") {
+          const others = Object.fromEntries(
+            Object.entries(hotkeys).filter(([, file]) => file !== binding)
+          );
+          updateSettings((settings) => ({
+            soundboardHotkeys: { ...others, [combo]: binding },
+            shortcuts: unbindShortcut(settings.shortcuts, combo),
+          }));
+        }
+        setBinding(null);
+        return;
+      }
+
+      const sound = sounds.find((s) => s.filename === hotkeys[combo]);
+      if (!sound) return;
+      e.preventDefault();
+      handlersRef.current[hotkeyAction](sound);
+    };
+    // Capture, so dashboard shortcuts see the key press as handled.
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, [binding, hotkeys, hotkeyAction, sounds]);
+
+  const hotkeyFor = (sound: SoundFile) =>
+    Object.keys(hotkeys).find((combo) => hotkeys[combo] === sound.filename);
+
+  const clearHotkey = (sound: SoundFile) =>
+    updateSettings({
+      soundboardHotkeys: Object.fromEntries(
+        Object.entries(hotkeys).filter(([, file]) => file !== sound.filename)
+      ),
+    });
+
+  const visible = sounds.filter((sound) =>
+    sound.filename.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+
+  return (
+    <div className="control-card">
+      <h3>Soundboard</h3>
+      <div className="soundboard-toolbar">
+        <input
+          type="search"
+          className="text-input"
+          placeholder="Filter sounds..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+        <select
+          className="select-input"
+          value={hotkeyAction}
+          onChange={(e) =>
+            updateSettings({
+              soundboardHotkeyAction: e.target.value as SoundboardHotkeyAction,
+            })
+          }
+          title="What a sound's hotkey does"
+        >
+          <option value="preview">Hotkeys preview</option>
+          <option value="broadcast">Hotkeys broadcast</option>
+        </select>
+      </div>
+
+      {loadError ? (
+        <div className="queue-empty">
+          Could not load sounds: {loadError}{" "}
+          <button className="small-button" onClick={loadSounds}>
+            Retry
+          </button>
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="queue-empty">
+          {sounds.length === 0 ? "Loading sounds..." : "No matching sounds"}
+        </div>
+      ) : (
+        <div className="soundboard-list">
+          {visible.map((sound) => {
+            const combo = hotkeyFor(sound);
+            return (
+              <div key={sound.filename} className="soundboard-item">
+                <span className="queue-name" title={sound.filename}>
+                  {soundName(sound)}
+                </span>
+                <div className="soundboard-actions">
+                  <button
+                    className={`small-button hotkey-button${
+                      binding === sound.filename ? " binding" : ""
+                    }`}
+                    onClick={() =>
+                      setBinding(
+                        binding === sound.filename ? null : sound.filename
+                      )
+                    }
+                    onContextMenu={(e) => {
+                      e.preventDefault();
+                      clearHotkey(sound);
+                    }}
+                    title="Click to set a hotkey, right-click to clear"
+                  >
+                    {binding === sound.filename
+                      ? "Press a key..."
+                      : combo
+                      ? formatCombo(combo)
+                      : "Set key"}
+                  </button>
+                  <button
+                    className="small-button"
+                    onClick={() => preview(sound)}
+                    title="Play only on this computer"
+                  >
+                    {previewing === sound.filename ? "Stop" : "Preview"}
+                  </button>
+                  <button
+                    className="small-button"
+                    onClick={() => broadcast(sound)}
+                    title="Play on the dashboard and overlays as a test clip"
+                  >
+                    Broadcast
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Soundboard;
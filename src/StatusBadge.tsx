@@ -0,0 +1,48 @@
+import { describeStatus, type StreamStatus } from "./eventStream";
+
+const statusColors: Record<StreamStatus["state"], string> = {
+  connected: "#22c55e",
+  stalled: "#f59e0b",
+  connecting: "#f59e0b",
+  reconnecting: "#f59e0b",
+  disconnected: "#f87171",
+  failed: "#f59e0b",
+  unauthorized: "#f87171",
+};
+
+const statusIcons: Record<StreamStatus["state"], string> = {
+  connected: "●",
+  stalled: "◌",
+  connecting: "◐",
+  reconnecting: "◐",
+  disconnected: "○",
+  failed: "⚠",
+  unauthorized: "✕",
+};
+
+interface StatusBadgeProps {
+  status: StreamStatus;
+  /** Shown as a Retry Now button once reconnecting keeps failing. */
+  onRetry?: () => void;
+}
+
+function StatusBadge({ status, onRetry }: StatusBadgeProps) {
+  return (
+    <>
+      <div
+        className="status-badge"
+        style={{ color: statusColors[status.state] }}
+      >
+        <span className="status-icon">{statusIcons[status.state]}</span>
+        {describeStatus(status)}
+      </div>
+      {status.state === "failed" && onRetry && (
+        <button className="small-button" onClick={onRetry}>
+          Retry Now
+        </button>
+      )}
+    </>
+  );
+}
+
+export default StatusBadge;
@@ -0,0 +1,90 @@
+import type { MinuteBucket } from "./analytics";
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 8, bottom: 24, left: 32 };
+
+interface TimeSeriesChartProps {
+  buckets: MinuteBucket[];
+  label: string;
+}
+
+/** Column chart of counts per minute, drawn as plain SVG. */
+function TimeSeriesChart({ buckets, label }: TimeSeriesChartProps) {
+  if (buckets.length === 0) {
+    return <div className="chart-empty">No data yet</div>;
+  }
+
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const step = plotWidth / buckets.length;
+  const barWidth = Math.max(1, step - (step > 4 ? 1 : 0));
+  const y = (count: number) => PADDING.top + plotHeight * (1 - count / max);
+  // Label roughly every sixth of the axis so labels never overlap.
+  const labelEvery = Math.max(1, Math.ceil(buckets.length / 6));
+
+  return (
+    <svg
+      className="chart"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label={label}
+    >
+      {[0, 0.5, 1].map((fraction) => {
+        const value = Math.round(max * fraction);
+        return (
+          <g key={fraction}>
+            <line
+              className="chart-grid"
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+            />
+            <text
+              className="chart-axis"
+              x={PADDING.left - 6}
+              y={y(value) + 4}
+              textAnchor="end"
+            >
+              {value}
+            </text>
+          </g>
+        );
+      })}
+      {buckets.map((bucket, index) => (
+        <g key={bucket.time.getTime()}>
+          <rect
+            className="chart-bar"
+            x={PADDING.left + index * step}
+            y={y(bucket.count)}
+            width={barWidth}
+            height={PADDING.top + plotHeight - y(bucket.count)}
+          >
+            <title>
+              {`${bucket.time.toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}: ${bucket.count}`}
+            </title>
+          </rect>
+          {index % labelEvery === 0 && (
+            <text
+              className="chart-axis"
+              x={PADDING.left + index * step}
+              y={HEIGHT - 6}
+            >
+              {bucket.time.toLocaleTimeString([], {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export default TimeSeriesChart;
@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PlaybackQueue, usePlaybackQueue } from "./playbackQueue";
+import {
+  overlayPositions,
+  type OverlayPosition,
+} from "./overlays/overlayConfig";
+
+export type AlertTheme = "classic" | "neon" | "light" | "minimal";
+export type AlertAnimation = "fade" | "slide" | "pop" | "none";
+/** `stack` shows several alerts at once, `queue` shows them one by one. */
+export type AlertLayout = "stack" | "queue";
+
+export interface AlertConfig {
+  theme: AlertTheme;
+  /** Text with `{user}` and `{reward}` placeholders; `\n` starts a new line. */
+  template: string;
+  durationMs: number;
+  enter: AlertAnimation;
+  exit: AlertAnimation;
+  position: OverlayPosition;
+  layout: AlertLayout;
+  maxVisible: number;
+  /** Image or GIF shown with a reward, keyed by reward name. */
+  images: Record<string, string>;
+}
+
+export interface AlertItem {
+  id: string;
+  username: string;
+  rewardName: string;
+  imageUrl?: string;
+}
+
+/** An alert currently on screen, as returned by `useAlertQueue`. */
+export interface ActiveAlert extends AlertItem {
+  entryId: string;
+  exiting: boolean;
+}
+
+export const alertThemes: AlertTheme[] = ["classic", "neon", "light", "minimal"];
+export const alertAnimations: AlertAnimation[] = ["fade", "slide", "pop", "none"];
+
+export const defaultAlertConfig: AlertConfig = {
+  theme: "classic",
+  template: "{user}\nredeemed: {reward}",
+  durationMs: 5000,
+  enter: "fade",
+  exit: "fade",
+  position: "top",
+  layout: "stack",
+  maxVisible: 3,
+  images: {},
+};
+
+export const ALERT_EXIT_MS = 400;
+
+export function renderAlertTemplate(
+  template: string,
+  alert: Pick<AlertItem, "username" | "rewardName">
+) {
+  return template
+    .replace(/\{(user|username)\}/g, alert.username)
+    .replace(/\{(reward|rewardName)\}/g, alert.rewardName)
+    .split(/\n|\\n/);
+}
+
+const oneOf = <T extends string>(options: T[], value: string | null) =>
+  options.find((option) => option === value);
+
+/**
+ * Reads alert options from an overlay URL, e.g.
+ * `?alertTheme=neon&template={user} just bought {reward}!&duration=8&enter=pop`.
+ * Reward images are passed as repeated `image=<reward name>|<url>` params.
+ */
+export function parseAlertConfig(
+  search: string,
+  defaults: Partial<AlertConfig> = {}
+): AlertConfig {
+  const params = new URLSearchParams(search);
+  const base = { ...defaultAlertConfig, ...defaults };
+  const duration = Number(params.get("duration") ?? NaN);
+  const maxVisible = Number(params.get("maxAlerts") ?? NaN);
+
+  const images = { ...base.images };
+  params.getAll("image").forEach((entry) => {
+    const separator = entry.lastIndexOf("|");
+    if (separator > 0) {
+      images[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+  });
+
+  return {
+    theme: oneOf(alertThemes, params.get("alertTheme")) ?? base.theme,
+    template: params.get("template") || base.template,
+    durationMs:
+      Number.isFinite(duration) && duration > 0
+        ? duration * 1000
+        : base.durationMs,
+    enter: oneOf(alertAnimations, params.get("enter")) ?? base.enter,
+    exit: oneOf(alertAnimations, params.get("exit")) ?? base.exit,
+    position:
+      oneOf(overlayPositions, params.get("alertPosition")) ?? base.position,
+    layout: oneOf<AlertLayout>(["stack", "queue"], params.get("layout")) ??
+      base.layout,
+    maxVisible:
+      Number.isInteger(maxVisible) && maxVisible > 0
+        ? maxVisible
+        : base.maxVisible,
+    images,
+  };
+}
+
+/** Builds the query string that `parseAlertConfig` reads back. */
+export function alertQuery(config: AlertConfig) {
+  const params = new URLSearchParams({
+    alertTheme: config.theme,
+    template: config.template,
+    duration: (config.durationMs / 1000).toString(),
+    enter: config.enter,
+    exit: config.exit,
+    alertPosition: config.position,
+    layout: config.layout,
+    maxAlerts: config.maxVisible.toString(),
+  });
+  Object.entries(config.images).forEach(([reward, url]) =>
+    params.append("image", `${reward}|${url}`)
+  );
+  return params.toString();
+}
+
+let nextAlertId = 0;
+
+/**
+ * Shows alerts for `durationMs`, then plays the exit animation. Alerts past
+ * `maxVisible` wait their turn instead of replacing the ones on screen.
+ */
+export function useAlertQueue(config: AlertConfig) {
+  const [exiting, setExiting] = useState<ReadonlySet<string>>(new Set());
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const setExit = (id: string, value: boolean) =>
+    setExiting((prev) => {
+      const next = new Set(prev);
+      if (value) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const [queue] = useState(
+    () =>
+      new PlaybackQueue<AlertItem>({
+        policy: config.layout === "stack" ? "overlap" : "queue",
+        maxVoices: config.maxVisible,
+        play: (alert) => {
+          const { durationMs, exit } = configRef.current;
+          const timers: ReturnType<typeof setTimeout>[] = [];
+          let resolve: () => void = () => undefined;
+          const finished = new Promise<void>((r) => {
+            resolve = r;
+          });
+          timers.push(
+            setTimeout(() => {
+              setExit(alert.id, true);
+              timers.push(
+                setTimeout(() => {
+                  setExit(alert.id, false);
+                  resolve();
+                }, exit === "none" ? 0 : ALERT_EXIT_MS)
+              );
+            }, durationMs)
+          );
+          return {
+            stop: () => {
+              timers.forEach(clearTimeout);
+              setExit(alert.id, false);
+              resolve();
+            },
+            finished,
+          };
+        },
+      })
+  );
+
+  useEffect(() => {
+    queue.setPolicy(
+      config.layout === "stack" ? "overlap" : "queue",
+      config.maxVisible
+    );
+  }, [queue, config.layout, config.maxVisible]);
+
+  useEffect(() => () => queue.stopAll(), [queue]);
+
+  const { playing } = usePlaybackQueue(queue);
+
+  const push = useCallback(
+    (username: string, rewardName: string, imageUrl?: string) => {
+      queue.enqueue({
+        id: (++nextAlertId).toString(),
+        username,
+        rewardName,
+        imageUrl: imageUrl ?? configRef.current.images[rewardName],
+      });
+    },
+    [queue]
+  );
+
+  const alerts: ActiveAlert[] = playing.map((entry) => ({
+    ...entry.item,
+    entryId: entry.id,
+    exiting: exiting.has(entry.item.id),
+  }));
+
+  return {
+    alerts,
+    push,
+    dismiss: (entryId: string) => queue.skip(entryId),
+    /** Removes every alert, shown or waiting, without an exit animation. */
+    clear: () => queue.stopAll(),
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { summarizeSession, type StreamSession } from "./analytics";
+import { createEventRecord, type EventRecord } from "./eventHistory";
+
+const sound = {
+  src: "/sounds/airhorn.mp3",
+  filename: "airhorn.mp3",
+  username: "viewer1",
+  rewardName: "Airhorn",
+};
+
+const sessionOf = (events: EventRecord[]): StreamSession => ({
+  id: "1",
+  start: events[0].timestamp,
+  end: events[events.length - 1].timestamp,
+  events,
+});
+
+describe("summarizeSession", () => {
+  it("classifies records by their structured fields", () => {
+    const summary = summarizeSession(
+      sessionOf([
+        // Descriptions no longer matter once a record carries its outcome.
+        createEventRecord("sound", "Airhorn!", sound, undefined, {
+          origin: "redemption",
+          outcome: "played",
+        }),
+        createEventRecord("sound", "Airhorn?", sound, undefined, {
+          origin: "redemption",
+          outcome: "paused",
+        }),
+        createEventRecord("sound", "Airhorn again", sound, undefined, {
+          origin: "replay",
+          outcome: "played",
+        }),
+        createEventRecord("error", "Overlay hiccup", undefined, undefined, {
+          outcome: "failed",
+        }),
+      ])
+    );
+
+    expect(summary.redemptions).toBe(2);
+    expect(summary.plays).toBe(2);
+    expect(summary.failures).toBe(1);
+  });
+
+  it("still reads records stored before the structured fields", () => {
+    const summary = summarizeSession(
+      sessionOf([
+        createEventRecord("sound", "Playing: airhorn.mp3", sound),
+        createEventRecord("sound", "Muted: airhorn.mp3", sound),
+        createEventRecord("sound", "Replayed: airhorn.mp3", sound),
+        createEventRecord("error", "Failed to play: airhorn.mp3"),
+      ])
+    );
+
+    expect(summary.redemptions).toBe(2);
+    expect(summary.plays).toBe(2);
+    expect(summary.failures).toBe(1);
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  eventRewardName,
+  eventUsername,
+  type EventRecord,
+} from "./eventHistory";
+
+/** A silence longer than this starts a new stream session. */
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface StreamSession {
+  id: string;
+  start: Date;
+  end: Date;
+  /** Oldest first. */
+  events: EventRecord[];
+}
+
+export interface RankEntry {
+  label: string;
+  count: number;
+}
+
+export interface MinuteBucket {
+  time: Date;
+  count: number;
+}
+
+export interface SessionSummary {
+  start: Date;
+  end: Date;
+  durationMs: number;
+  redemptions: number;
+  uniqueRedeemers: number;
+  plays: number;
+  failures: number;
+  /** Playback failures per play, between 0 and 1. */
+  failureRate: number;
+  perMinute: MinuteBucket[];
+  topRewards: RankEntry[];
+  topRedeemers: RankEntry[];
+}
+
+const isClip = (record: EventRecord) =>
+  record.type === "sound" || record.type === "video";
+
+/**
+ * A viewer redemption as logged by the dashboard. Replays are excluded so
+ * that re-playing a clip from the history does not inflate the numbers.
+ * Records from before `origin` existed fall back to their description.
+ */
+export const isRedemption = (record: EventRecord) =>
+  isClip(record) &&
+  eventUsername(record) !== "" &&
+  (record.origin
+    ? record.origin === "redemption"
+    : !record.description.startsWith("Replay"));
+
+const skippedOutcomes = new Set(["dropped", "muted", "paused"]);
+
+/** Clips the dashboard or an overlay tried to play, redemptions or not. */
+const isPlay = (record: EventRecord) =>
+  isClip(record) &&
+  (record.outcome
+    ? !skippedOutcomes.has(record.outcome)
+    : !/^(Muted|Dropped|Paused)/.test(record.description));
+
+/**
+ * An `error` event caused by media that would not play, as opposed to
+ * connection trouble. Older records are recognised by their description, or
+ * by the status payload overlay errors carry.
+ */
+export function isPlaybackFailure(record: EventRecord) {
+  if (record.type !== "error") return false;
+  if (record.outcome) return record.outcome === "failed";
+  if (record.description.startsWith("Failed to play")) return true;
+  const data = record.data as Record<string, unknown> | undefined;
+  return typeof data === "object" && data !== null && "overlay" in data;
+}
+
+/** Groups events, newest first, into sessions separated by long silences. */
+export function splitSessions(events: EventRecord[]): StreamSession[] {
+  const sessions: StreamSession[] = [];
+  let current: EventRecord[] = [];
+
+  const close = () => {
+    if (current.length === 0) return;
+    const start = current[0].timestamp;
+    sessions.push({
+      id: start.getTime().toString(),
+      start,
+      end: current[current.length - 1].timestamp,
+      events: current,
+    });
+    current = [];
+  };
+
+  [...events].reverse().forEach((record) => {
+    const last = current[current.length - 1];
+    if (
+      last &&
+      record.timestamp.getTime() - last.timestamp.getTime() > SESSION_GAP_MS
+    ) {
+      close();
+    }
+    current.push(record);
+  });
+  close();
+  return sessions.reverse();
+}
+
+export function rank(values: string[], limit: number): RankEntry[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts, ([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, limit);
+}
+
+/** Counts records per minute from `start` to `end`, empty minutes included. */
+export function perMinute(
+  records: EventRecord[],
+  start: Date,
+  end: Date
+): MinuteBucket[] {
+  const first = Math.floor(start.getTime() / MINUTE_MS);
+  const last = Math.floor(end.getTime() / MINUTE_MS);
+  const counts = new Array<number>(last - first + 1).fill(0);
+  records.forEach((record) => {
+    const minute = Math.floor(record.timestamp.getTime() / MINUTE_MS);
+    if (minute >= first && minute <= last) counts[minute - first] += 1;
+  });
+  return counts.map((count, index) => ({
+    time: new Date((first + index) * MINUTE_MS),
+    count,
+  }));
+}
+
+export function summarizeSession(
+  session: StreamSession,
+  limit = 5
+): SessionSummary {
+  const redemptions = session.events.filter(isRedemption);
+  const plays = session.events.filter(isPlay).length;
+  const failures = session.events.filter(isPlaybackFailure).length;
+  const users = redemptions.map(eventUsername);
+
+  return {
+    start: session.start,
+    end: session.end,
+    durationMs: session.end.getTime() - session.start.getTime(),
+    redemptions: redemptions.length,
+    uniqueRedeemers: new Set(users).size,
+    plays,
+    failures,
+    failureRate: plays > 0 ? Math.min(1, failures / plays) : 0,
+    perMinute: perMinute(redemptions, session.start, session.end),
+    topRewards: rank(
+      redemptions.map(eventRewardName).filter(Boolean),
+      limit
+    ),
+    topRedeemers: rank(users, limit),
+  };
+}
+
+export function formatDuration(ms: number) {
+  const minutes = Math.round(ms / MINUTE_MS);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+export const formatPercent = (value: number) =>
+  `${(value * 100).toFixed(1)}%`;
+
+/** A Markdown end-of-stream report for one session. */
+export function sessionReport(summary: SessionSummary) {
+  const list = (entries: RankEntry[]) =>
+    entries.length > 0
+      ? entries
+          .map((entry, index) => `${index + 1}. ${entry.label} (${entry.count})`)
+          .join("\n")
+      : "_None_";
+  const busiest = summary.perMinute.reduce<MinuteBucket | null>(
+    (best, bucket) => (!best || bucket.count > best.count ? bucket : best),
+    null
+  );
+
+  return [
+    `# Stream report ${summary.start.toLocaleDateString()}`,
+    "",
+    `- Start: ${summary.start.toLocaleString()}`,
+    `- End: ${summary.end.toLocaleString()}`,
+    `- Duration: ${formatDuration(summary.durationMs)}`,
+    `- Redemptions: ${summary.redemptions} from ${summary.uniqueRedeemers} viewers`,
+    `- Playback failures: ${summary.failures} of ${summary.plays} plays (${formatPercent(
+      summary.failureRate
+    )})`,
+    busiest && busiest.count > 0
+      ? `- Busiest minute: ${busiest.time.toLocaleTimeString()} (${busiest.count} redemptions)`
+      : "- Busiest minute: none",
+    "",
+    "## Top rewards",
+    "",
+    list(summary.topRewards),
+    "",
+    "## Top redeemers",
+    "",
+    list(summary.topRedeemers),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,140 @@
+import { apiBase } from "./config";
+import type { ModerationDecision } from "./moderation";
+import type {
+  OverlayStatusPayload,
+  ServerEventMap,
+  ServerEventType,
+} from "./serverEvents";
+
+/** A non-2xx response or network failure from the HLP API. */
+export class ApiError extends Error {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+let accessToken: string | null = null;
+const unauthorizedListeners = new Set<() => void>();
+
+/** Token sent as a bearer credential with every API request. */
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+/** Called when the API rejects the current access token. */
+export function onUnauthorized(listener: () => void) {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+export async function apiRequest<T = unknown>(
+  path: string,
+  init: RequestInit = {}
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${apiBase}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        ...init.headers,
+      },
+    });
+  } catch (error) {
+    throw new ApiError(
+      error instanceof Error ? error.message : "Network error",
+      null
+    );
+  }
+
+  if (!response.ok) {
+    if (response.status === 401 && accessToken) {
+      unauthorizedListeners.forEach((listener) => listener());
+    }
+    throw new ApiError(
+      `${init.method ?? "GET"} ${path} failed with ${response.status}`,
+      response.status
+    );
+  }
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+/** Asks the API to send an event to every connected client, overlays included. */
+export function broadcastEvent<K extends ServerEventType>(
+  event: K,
+  data: ServerEventMap[K]
+) {
+  return apiRequest("/broadcast", {
+    method: "POST",
+    body: JSON.stringify({ event, data }),
+  });
+}
+
+/** Lets an overlay tell the dashboard what it is doing, via the API. */
+export function reportOverlayStatus(status: OverlayStatusPayload) {
+  return apiRequest("/overlay/status", {
+    method: "POST",
+    body: JSON.stringify(status),
+  });
+}
+
+export interface RedemptionDecision {
+  event: "play-sound" | "play-video";
+  decision: ModerationDecision;
+  redemptionId?: string;
+  username?: string;
+  rewardName?: string;
+  /** Set for automatic rejections, e.g. "blocked user". */
+  reason?: string;
+}
+
+/**
+ * Records a moderator's decision. For `refunded` the API also refunds the
+ * channel points through Twitch, which needs the redemption id.
+ */
+export function postRedemptionDecision(decision: RedemptionDecision) {
+  return apiRequest("/redemptions/decision", {
+    method: "POST",
+    body: JSON.stringify(decision),
+  });
+}
+
+export interface SoundFile {
+  filename: string;
+  src: string;
+}
+
+/** A reward video; same shape as a sound file. */
+export type VideoFile = SoundFile;
+
+async function fetchMediaList(path: string): Promise<SoundFile[]> {
+  const data = await apiRequest<unknown>(path);
+  if (!Array.isArray(data)) {
+    throw new ApiError(`GET ${path} returned an unexpected shape`, null);
+  }
+  return data.filter(
+    (entry): entry is SoundFile =>
+      typeof entry === "object" &&
+      entry !== null &&
+      typeof entry.filename === "string" &&
+      typeof entry.src === "string"
+  );
+}
+
+/** Lists the sound files the API can play, for the soundboard. */
+export function fetchSounds(): Promise<SoundFile[]> {
+  return fetchMediaList("/sounds");
+}
+
+/** Lists the reward videos, for preloading. */
+export function fetchVideos(): Promise<VideoFile[]> {
+  return fetchMediaList("/videos");
+}
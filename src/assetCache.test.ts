@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { apiBase } from "./config";
+import { mockApi } from "./test/helpers";
+
+/** Cache Storage with one cache, enough for the asset cache. */
+function fakeCaches(initial: Record<string, string>) {
+  const entries = new Map(
+    Object.entries(initial).map(([src, body]) => [`${apiBase}${src}`, body])
+  );
+  const reads: string[] = [];
+  const cache = {
+    match: async (request: RequestInfo) => {
+      const url = typeof request === "string" ? request : request.url;
+      const body = entries.get(url);
+      if (body === undefined) return undefined;
+      reads.push(url);
+      return new Response(body);
+    },
+    put: async (url: string, response: Response) => {
+      entries.set(url, await response.text());
+    },
+    keys: async () => [...entries.keys()].map((url) => new Request(url)),
+    delete: async (request: Request) => entries.delete(request.url),
+  };
+  vi.stubGlobal("caches", {
+    open: async () => cache,
+    delete: async () => entries.clear(),
+  });
+  return { entries, reads };
+}
+
+/** Imports a fresh copy, since support is detected at import. */
+const importAssetCache = async () => {
+  vi.resetModules();
+  return import("./assetCache");
+};
+
+describe("assetCache", () => {
+  beforeEach(() => {
+    // jsdom has no blob URLs.
+    let next = 0;
+    vi.stubGlobal(
+      "URL",
+      class extends URL {
+        static createObjectURL = () => `blob:clip-${++next}`;
+        static revokeObjectURL = () => undefined;
+      }
+    );
+  });
+
+  it("reads nothing until a clip is looked up, then only that clip", async () => {
+    const { reads } = fakeCaches({
+      "/sounds/airhorn.mp3": "horn",
+      "/sounds/drum.mp3": "drum",
+    });
+    const { mediaUrl } = await importAssetCache();
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(reads).toEqual([]);
+
+    mediaUrl("/sounds/airhorn.mp3");
+    await vi.waitFor(() =>
+      expect(mediaUrl("/sounds/airhorn.mp3")).toMatch(/^blob:/)
+    );
+    expect(reads).toEqual([`${apiBase}/sounds/airhorn.mp3`]);
+  });
+
+  it("serves a preloaded clip locally on its first play", async () => {
+    mockApi({
+      "GET /sounds": () => [
+        { filename: "airhorn.mp3", src: "/sounds/airhorn.mp3" },
+      ],
+    });
+    fakeCaches({ "/sounds/airhorn.mp3": "horn" });
+    const { mediaUrl, preloadCatalog } = await importAssetCache();
+
+    await preloadCatalog();
+
+    expect(mediaUrl("/sounds/airhorn.mp3")).toMatch(/^blob:/);
+  });
+
+  it("deletes cached clips that left the catalog", async () => {
+    mockApi({
+      "GET /sounds": () => [{ filename: "drum.mp3", src: "/sounds/drum.mp3" }],
+    });
+    const { entries } = fakeCaches({
+      "/sounds/airhorn.mp3": "horn",
+      "/sounds/drum.mp3": "drum",
+    });
+    const { getAssetCacheState, preloadCatalog } = await importAssetCache();
+
+    await preloadCatalog();
+
+    expect([...entries.keys()]).toEqual([`${apiBase}/sounds/drum.mp3`]);
+    expect(getAssetCacheState()).toMatchObject({ cached: 1, total: 1 });
+  });
+});
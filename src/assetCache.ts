@@ -0,0 +1,270 @@
+import { useSyncExternalStore } from "react";
+import { fetchSounds, fetchVideos } from "./api";
+import { apiBase } from "./config";
+
+const CACHE_NAME = "hlp-media-v1";
+/** Downloads in flight at once while preloading. */
+const PRELOAD_CONCURRENCY = 3;
+/** Clips kept in memory as blob URLs; older ones stay in Cache Storage. */
+const MAX_OBJECT_URLS = 40;
+
+export interface AssetFailure {
+  src: string;
+  message: string;
+}
+
+export interface AssetCacheState {
+  /** `unsupported` outside secure contexts, where Cache Storage is missing. */
+  status: "unsupported" | "idle" | "preloading" | "ready";
+  /** Assets in the catalog plus any cached on first play. */
+  total: number;
+  cached: number;
+  bytes: number;
+  failures: AssetFailure[];
+  /** Catalog lists that could not be fetched. */
+  catalogErrors: string[];
+}
+
+const supported = typeof caches !== "undefined";
+
+// Keyed by absolute URL, as Cache Storage normalizes it. Blob URLs keep
+// cached clips playable without touching the network. Preloading keeps
+// what it caches in memory; otherwise nothing is read from Cache Storage
+// until a clip is looked up, so overlays only ever load the clips they play.
+/** Least recently used first. */
+const objectUrls = new Map<string, string>();
+/** Demo clips served from memory; never evicted. */
+const provided = new Map<string, { objectUrl: string; size: number }>();
+/** Sizes of the clips known to be in Cache Storage. */
+const stored = new Map<string, number>();
+const inFlight = new Map<string, Promise<void>>();
+/** Lookups that found nothing in Cache Storage, so they are not repeated. */
+const missing = new Set<string>();
+let catalog = new Set<string>();
+
+let state: AssetCacheState = {
+  status: supported ? "idle" : "unsupported",
+  total: 0,
+  cached: 0,
+  bytes: 0,
+  failures: [],
+  catalogErrors: [],
+};
+const listeners = new Set<() => void>();
+
+function setState(changes: Partial<AssetCacheState>) {
+  const sizes = new Map(stored);
+  provided.forEach(({ size }, url) => sizes.set(url, size));
+  let bytes = 0;
+  sizes.forEach((size) => (bytes += size));
+  state = {
+    ...state,
+    ...changes,
+    total: new Set([...catalog, ...sizes.keys()]).size,
+    cached: sizes.size,
+    bytes,
+  };
+  listeners.forEach((listener) => listener());
+}
+
+const assetUrl = (src: string) => new URL(`${apiBase}${src}`).href;
+
+function remember(url: string, blob: Blob) {
+  if (objectUrls.has(url)) return;
+  objectUrls.set(url, URL.createObjectURL(blob));
+  for (const [oldest, objectUrl] of objectUrls) {
+    if (objectUrls.size <= MAX_OBJECT_URLS) break;
+    URL.revokeObjectURL(objectUrl);
+    objectUrls.delete(oldest);
+  }
+}
+
+function forget(url: string) {
+  const objectUrl = objectUrls.get(url);
+  if (objectUrl) URL.revokeObjectURL(objectUrl);
+  objectUrls.delete(url);
+  stored.delete(url);
+}
+
+function setFailure(src: string, message: string | null) {
+  const failures = state.failures.filter((failure) => failure.src !== src);
+  if (message) failures.push({ src, message });
+  setState({ failures });
+}
+
+/** Reads one clip from Cache Storage into memory for the next lookup. */
+function load(url: string) {
+  if (inFlight.has(url)) return;
+  const task = (async () => {
+    try {
+      const response = await (await caches.open(CACHE_NAME)).match(url);
+      if (!response) {
+        missing.add(url);
+        return;
+      }
+      const blob = await response.blob();
+      remember(url, blob);
+      if (!stored.has(url)) {
+        stored.set(url, blob.size);
+        setState({});
+      }
+    } catch {
+      missing.add(url);
+    } finally {
+      inFlight.delete(url);
+    }
+  })();
+  inFlight.set(url, task);
+}
+
+/**
+ * Where to load a clip from: the cached copy when it is in memory, the API
+ * otherwise. Media elements take the result as their `src`. A miss starts
+ * reading the clip from Cache Storage, so the next play of it is local.
+ */
+export function mediaUrl(src: string) {
+  const url = assetUrl(src);
+  const objectUrl = provided.get(url)?.objectUrl ?? objectUrls.get(url);
+  if (objectUrl) {
+    if (objectUrls.delete(url)) objectUrls.set(url, objectUrl);
+    return objectUrl;
+  }
+  if (supported && !missing.has(url)) load(url);
+  return url;
+}
+
+/**
+ * Downloads one clip into the cache unless it is there already, and keeps
+ * it in memory so its first play is local too.
+ */
+export function cacheAsset(src: string) {
+  const url = assetUrl(src);
+  if (!supported || stored.has(url) || provided.has(url)) {
+    return Promise.resolve();
+  }
+  const existing = inFlight.get(url);
+  if (existing) return existing;
+
+  const task = (async () => {
+    try {
+      const cache = await caches.open(CACHE_NAME);
+      let response = await cache.match(url);
+      if (!response) {
+        const fetched = await fetch(url);
+        if (!fetched.ok) throw new Error(`HTTP ${fetched.status}`);
+        await cache.put(url, fetched.clone());
+        response = fetched;
+      }
+      const blob = await response.blob();
+      remember(url, blob);
+      stored.set(url, blob.size);
+      missing.delete(url);
+      setFailure(src, null);
+    } catch (error) {
+      setFailure(src, error instanceof Error ? error.message : String(error));
+    } finally {
+      inFlight.delete(url);
+    }
+  })();
+  inFlight.set(url, task);
+  return task;
+}
+
+/** Serves `src` from a blob already in memory, such as a demo clip. */
+export function provideAsset(src: string, blob: Blob) {
+  const url = assetUrl(src);
+  if (provided.has(url)) return;
+  provided.set(url, { objectUrl: URL.createObjectURL(blob), size: blob.size });
+  setState({});
+}
+
+/** Deletes cached clips that are no longer in the catalog. */
+async function pruneStale(sources: Set<string>) {
+  const current = new Set([...sources].map(assetUrl));
+  const cache = await caches.open(CACHE_NAME);
+  const requests = await cache.keys();
+  await Promise.all(
+    requests
+      .filter((request) => !current.has(request.url))
+      .map(async (request) => {
+        await cache.delete(request);
+        forget(request.url);
+      })
+  );
+}
+
+/**
+ * Fetches the sound and video catalogs and caches every clip in them, a
+ * few at a time. Clips that left the catalog are deleted from the cache.
+ * Failed downloads are retried on the next call.
+ */
+export async function preloadCatalog() {
+  if (!supported || state.status === "preloading") return;
+  setState({ status: "preloading", catalogErrors: [] });
+
+  const lists = await Promise.allSettled([fetchSounds(), fetchVideos()]);
+  const catalogErrors: string[] = [];
+  const sources = new Set<string>();
+  lists.forEach((list) => {
+    if (list.status === "fulfilled") {
+      list.value.forEach((file) => sources.add(file.src));
+    } else {
+      catalogErrors.push(
+        list.reason instanceof Error ? list.reason.message : String(list.reason)
+      );
+    }
+  });
+  // A partial catalog cannot tell removed clips from unlisted ones.
+  if (catalogErrors.length === 0) {
+    catalog = new Set([...sources].map(assetUrl));
+    await pruneStale(sources).catch((error) =>
+      console.warn("Failed to prune the media cache", error)
+    );
+  } else {
+    catalog = new Set([...catalog, ...[...sources].map(assetUrl)]);
+  }
+  setState({ catalogErrors });
+
+  const queue = [...sources];
+  const worker = async () => {
+    for (let src = queue.shift(); src; src = queue.shift()) {
+      await cacheAsset(src);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: PRELOAD_CONCURRENCY }, () => worker())
+  );
+  setState({ status: "ready" });
+}
+
+/** Drops every cached clip; they are fetched from the API again. */
+export async function clearAssetCache() {
+  if (!supported) return;
+  await caches.delete(CACHE_NAME);
+  objectUrls.forEach((url) => URL.revokeObjectURL(url));
+  objectUrls.clear();
+  stored.clear();
+  missing.clear();
+  setState({ status: "idle", failures: [] });
+}
+
+export function getAssetCacheState() {
+  return state;
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export function useAssetCache() {
+  return useSyncExternalStore(subscribe, getAssetCacheState);
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react";
+import type { PlaybackHandle } from "./playbackQueue";
+
+/** `stream` is the device OBS captures, `monitor` the broadcaster's headphones. */
+export type AudioChannelName = "stream" | "monitor";
+
+export interface AudioChannel {
+  /** `setSinkId` device; empty means the system default. */
+  deviceId: string;
+  volume: number;
+  muted: boolean;
+}
+
+export const audioChannelNames: AudioChannelName[] = ["stream", "monitor"];
+
+/**
+ * Plays a single clip on its own Audio element so that several clips can
+ * overlap without cutting each other off.
+ */
+export function playAudioClip(
+  src: string,
+  volume: number,
+  onError?: () => void,
+  sinkId = ""
+): PlaybackHandle {
+  const audio = new Audio();
+  let done: () => void = () => undefined;
+  const finished = new Promise<void>((resolve) => {
+    done = resolve;
+  });
+
+  let settled = false;
+  const release = () => {
+    if (settled) return;
+    settled = true;
+    audio.onended = null;
+    audio.onerror = null;
+    audio.pause();
+    audio.removeAttribute("src");
+    audio.load();
+    done();
+  };
+
+  const fail = () => {
+    if (settled) return;
+    onError?.();
+    release();
+  };
+
+  audio.onended = release;
+  audio.onerror = fail;
+  audio.volume = volume;
+  audio.src = src;
+  routeToDevice(audio, sinkId)
+    .then(() => (settled ? undefined : audio.play()))
+    .catch(fail);
+
+  return { stop: release, finished };
+}
+
+/**
+ * Plays a clip on every unmuted channel at once, each with its own device and
+ * volume. The handle stops all copies and finishes when the last one does.
+ */
+export function playOnChannels(
+  src: string,
+  channels: AudioChannel[],
+  onError?: () => void
+): PlaybackHandle {
+  let reported = false;
+  const reportOnce = () => {
+    if (reported) return;
+    reported = true;
+    onError?.();
+  };
+  const handles = channels
+    .filter((channel) => !channel.muted)
+    .map((channel) =>
+      playAudioClip(src, channel.volume, reportOnce, channel.deviceId)
+    );
+  return {
+    stop: () => handles.forEach((handle) => handle.stop()),
+    finished: Promise.all(handles.map((handle) => handle.finished)).then(
+      () => undefined
+    ),
+  };
+}
+
+/**
+ * Sends an element's output to a specific device. An empty id keeps the
+ * system default; browsers without `setSinkId` always use the default.
+ */
+export async function routeToDevice(element: HTMLMediaElement, sinkId: string) {
+  if (!sinkId || typeof element.setSinkId !== "function") return;
+  try {
+    await element.setSinkId(sinkId);
+  } catch (error) {
+    // An unplugged device should not silence the channel; play on the
+    // default output until it comes back.
+    if (!(error instanceof DOMException && error.name === "NotFoundError")) {
+      throw error;
+    }
+  }
+}
+
+export interface OutputDevice {
+  deviceId: string;
+  /** Empty until the page has been granted microphone permission. */
+  label: string;
+}
+
+/** Lists audio outputs, leaving out the browser's "default" alias. */
+export async function listOutputDevices(): Promise<OutputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(
+      (device) => device.kind === "audiooutput" && device.deviceId !== "default"
+    )
+    .map((device) => ({ deviceId: device.deviceId, label: device.label }));
+}
+
+/**
+ * Browsers only reveal device names once a capture permission is granted, so
+ * this briefly opens the microphone and closes it again.
+ */
+export async function requestDeviceLabels() {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+/** Current audio outputs, refreshed whenever a device is plugged or unplugged. */
+export function useOutputDevices() {
+  const [devices, setDevices] = useState<OutputDevice[]>([]);
+
+  const refresh = useCallback(() => {
+    listOutputDevices()
+      .then(setDevices)
+      .catch(() => setDevices([]));
+  }, []);
+
+  useEffect(() => {
+    const media = navigator.mediaDevices;
+    refresh();
+    media?.addEventListener("devicechange", refresh);
+    return () => media?.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  return { devices, refresh };
+}
@@ -0,0 +1,223 @@
+import { useSyncExternalStore } from "react";
+import { apiRequest, onUnauthorized, setAccessToken } from "./api";
+import { apiBase } from "./config";
+import { getEventStream } from "./eventStream";
+
+export interface Channel {
+  id: string;
+  login: string;
+  displayName: string;
+}
+
+export interface Session {
+  token: string;
+  /** ISO timestamp after which the API rejects `token`. */
+  expiresAt: string;
+  user: Channel;
+  /** Channels this account may manage, its own included. */
+  channels: Channel[];
+  /** The channel the dashboard is scoped to. */
+  channelId: string;
+  /** Read-only overlay tokens already issued, keyed by channel id. */
+  overlayTokens: Record<string, string>;
+}
+
+export type SignedOutReason = "expired" | "revoked" | "signed-out";
+
+export type AuthState =
+  | { status: "signed-out"; reason: SignedOutReason | null }
+  | { status: "signed-in"; session: Session };
+
+const SESSION_KEY = "hlp.session";
+
+/** Raised when the login callback does not yield a usable session. */
+export class LoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LoginError";
+  }
+}
+
+function loadState(): AuthState {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    if (!stored) return { status: "signed-out", reason: null };
+    const session = JSON.parse(stored) as Session;
+    return Date.parse(session.expiresAt) > Date.now()
+      ? { status: "signed-in", session }
+      : { status: "signed-out", reason: "expired" };
+  } catch {
+    return { status: "signed-out", reason: null };
+  }
+}
+
+let state = loadState();
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+function setState(next: AuthState) {
+  state = next;
+  if (next.status === "signed-in") {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(next.session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  applyState();
+  listeners.forEach((listener) => listener());
+}
+
+function applyState() {
+  if (expiryTimer) clearTimeout(expiryTimer);
+  expiryTimer = null;
+  if (state.status !== "signed-in") {
+    setAccessToken(null);
+    return;
+  }
+  setAccessToken(state.session.token);
+  const remaining = Date.parse(state.session.expiresAt) - Date.now();
+  // setTimeout overflows past ~24.8 days; a reload re-arms the timer anyway.
+  if (remaining < 2 ** 31 - 1) {
+    expiryTimer = setTimeout(
+      () => setState({ status: "signed-out", reason: "expired" }),
+      Math.max(0, remaining)
+    );
+  }
+}
+
+applyState();
+
+onUnauthorized(() => {
+  if (state.status === "signed-in") {
+    setState({ status: "signed-out", reason: "revoked" });
+  }
+});
+
+// Signing in or out in one tab applies to every open tab.
+window.addEventListener("storage", (e) => {
+  if (e.key !== SESSION_KEY) return;
+  state = loadState();
+  applyState();
+  listeners.forEach((listener) => listener());
+});
+
+export function getAuthState() {
+  return state;
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export function useAuth() {
+  return useSyncExternalStore(subscribe, getAuthState);
+}
+
+const CALLBACK_PATH = "/auth/callback";
+
+/** Sends the browser to the API's Twitch login, which redirects back here. */
+export function startLogin() {
+  const redirect = `${window.location.origin}${CALLBACK_PATH}`;
+  window.location.assign(
+    `${apiBase}/auth/login?redirect=${encodeURIComponent(redirect)}`
+  );
+}
+
+interface SessionResponse {
+  expiresAt: string;
+  user: Channel;
+  channels: Channel[];
+}
+
+/**
+ * Finishes the login redirect. The API puts the token in the URL fragment
+ * so that it never reaches server logs.
+ */
+export async function completeLogin(hash: string) {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const error = params.get("error");
+  if (error) throw new LoginError(`Login was not completed: ${error}`);
+  const token = params.get("token");
+  if (!token) throw new LoginError("The login response did not include a token");
+
+  const info = await apiRequest<SessionResponse>("/auth/session", {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const channels = info.channels.length > 0 ? info.channels : [info.user];
+  setState({
+    status: "signed-in",
+    session: {
+      token,
+      expiresAt: info.expiresAt,
+      user: info.user,
+      channels,
+      channelId: channels[0].id,
+      overlayTokens: {},
+    },
+  });
+}
+
+export function signOut() {
+  if (state.status === "signed-in") {
+    // Best effort: the token is dropped locally even if the API is unreachable.
+    apiRequest("/auth/logout", { method: "POST" }).catch(() => undefined);
+  }
+  setState({ status: "signed-out", reason: "signed-out" });
+}
+
+function updateSession(changes: Partial<Session>) {
+  if (state.status !== "signed-in") return;
+  setState({ status: "signed-in", session: { ...state.session, ...changes } });
+}
+
+export function selectChannel(channelId: string) {
+  updateSession({ channelId });
+}
+
+/** Signed, short-lived token that lets an EventSource join one channel. */
+export async function fetchStreamToken(channelId: string) {
+  const { token } = await apiRequest<{ token: string }>(
+    `/auth/stream-token?channel=${encodeURIComponent(channelId)}`
+  );
+  return token;
+}
+
+/**
+ * Issues a read-only token for OBS browser sources. It can receive a
+ * channel's events and report overlay status, nothing else.
+ */
+export async function createOverlayToken(channelId: string) {
+  const { token } = await apiRequest<{ token: string }>(
+    "/auth/overlay-tokens",
+    { method: "POST", body: JSON.stringify({ channel: channelId }) }
+  );
+  if (state.status === "signed-in") {
+    updateSession({
+      overlayTokens: { ...state.session.overlayTokens, [channelId]: token },
+    });
+  }
+  return token;
+}
+
+/** The dashboard's event stream for one channel. */
+export function getChannelStream(channelId: string) {
+  return getEventStream(
+    `${apiBase}/events?channel=${encodeURIComponent(channelId)}`,
+    { getToken: () => fetchStreamToken(channelId) }
+  );
+}
+
+/**
+ * The event stream for an overlay, authorized by the `token` in its URL.
+ * The token is also used for the overlay's own API requests.
+ */
+export function getOverlayStream(search: string) {
+  const token = new URLSearchParams(search).get("token");
+  if (token) setAccessToken(token);
+  return getEventStream(
+    `${apiBase}/events`,
+    token ? { getToken: async () => token } : undefined
+  );
+}
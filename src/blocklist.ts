@@ -0,0 +1,39 @@
+import { useRef, useState } from "react";
+import { broadcastEvent } from "./api";
+import { useStreamEvent, type EventStreamClient } from "./eventStream";
+import { normalizeUsername } from "./moderation";
+
+/**
+ * OBS browser sources do not share storage with the dashboard, so the
+ * dashboard sends its blocklist to the overlays, which remember the last one
+ * they received.
+ */
+const CACHE_KEY = "hlp.blocklist.overlay";
+
+/** Twitch logins cannot contain commas, so a plain list is enough. */
+const parseUsers = (users: string) =>
+  users
+    .split(",")
+    .map(normalizeUsername)
+    .filter((user) => user !== "");
+
+const loadCached = () =>
+  new Set(parseUsers(localStorage.getItem(CACHE_KEY) ?? ""));
+
+/** Sends the users whose redemptions overlays must hide; empty clears it. */
+export const publishBlocklist = (blocklist: string[]) =>
+  broadcastEvent("moderation-blocklist", { users: blocklist.join(",") });
+
+/** Whether an overlay should hide a redemption by `username`. */
+export function useOverlayBlocklist(stream: EventStreamClient) {
+  const [cached] = useState(loadCached);
+  const blockedRef = useRef(cached);
+
+  useStreamEvent(stream, "moderation-blocklist", ({ users }) => {
+    blockedRef.current = new Set(parseUsers(users));
+    localStorage.setItem(CACHE_KEY, users);
+  });
+
+  return (username?: string) =>
+    !!username && blockedRef.current.has(normalizeUsername(username));
+}
@@ -0,0 +1,50 @@
+import { getSettings } from "./settings";
+
+/** Where the API base URL came from, for troubleshooting. */
+export type ApiBaseSource =
+  | "mock"
+  | "settings"
+  | "env"
+  | "localhost"
+  | "production";
+
+/**
+ * The built-in demo server is used when the page URL has `mock=1`, the
+ * build sets `VITE_MOCK=1` or the API base override is `mock`.
+ */
+function mockRequested(override: string) {
+  const param = new URLSearchParams(window.location.search).get("mock");
+  if (param !== null) return param !== "0";
+  return import.meta.env.VITE_MOCK === "1" || override === "mock";
+}
+
+function resolveApiBase(): { url: string; source: ApiBaseSource } {
+  const override = getSettings().apiBaseOverride.trim();
+  if (mockRequested(override)) {
+    // Never contacted: the demo server answers these URLs in the browser.
+    return { url: `${window.location.origin}/mock-api`, source: "mock" };
+  }
+  if (override) return { url: override.replace(/\/+$/, ""), source: "settings" };
+  if (import.meta.env.VITE_API_BASE_URL) {
+    return { url: import.meta.env.VITE_API_BASE_URL, source: "env" };
+  }
+  return window.location.hostname === "localhost" ||
+    window.location.hostname === "127.0.0.1"
+    ? { url: "http://localhost:8787", source: "localhost" }
+    : { url: "https://hlp-api.onrender.com", source: "production" };
+}
+
+const resolved = resolveApiBase();
+
+export const apiBase = resolved.url;
+export const apiBaseSource = resolved.source;
+export const mockMode = resolved.source === "mock";
+
+/** Which resolution rule chose the API base, in plain words. */
+export const apiBaseSourceLabels: Record<ApiBaseSource, string> = {
+  mock: "built-in demo server",
+  settings: "override saved on the settings page",
+  env: "VITE_API_BASE_URL set at build time",
+  localhost: "page served from localhost",
+  production: "production default",
+};
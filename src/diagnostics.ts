@@ -0,0 +1,111 @@
+import { apiRequest, fetchSounds } from "./api";
+import { fetchStreamToken, getAuthState } from "./auth";
+import { apiBase } from "./config";
+
+export interface SelfTestResult {
+  name: string;
+  ok: boolean;
+  detail: string;
+  durationMs: number;
+}
+
+const STREAM_TEST_TIMEOUT_MS = 5000;
+
+async function timed(
+  name: string,
+  check: () => Promise<string>
+): Promise<SelfTestResult> {
+  const started = performance.now();
+  try {
+    const detail = await check();
+    return { name, ok: true, detail, durationMs: performance.now() - started };
+  } catch (error) {
+    return {
+      name,
+      ok: false,
+      detail: error instanceof Error ? error.message : String(error),
+      durationMs: performance.now() - started,
+    };
+  }
+}
+
+/**
+ * Times a `/health` request there and back. Both ends are read from the
+ * browser's clock, so unlike heartbeat timestamps this is not skewed by a
+ * server clock that runs fast or slow.
+ */
+export async function measureRoundTrip() {
+  const started = performance.now();
+  await apiRequest("/health");
+  return performance.now() - started;
+}
+
+/** Opens a throwaway EventSource and waits for it to connect. */
+function probeStream(url: string) {
+  return new Promise<string>((resolve, reject) => {
+    const es = new EventSource(url);
+    const timer = setTimeout(() => {
+      es.close();
+      reject(
+        new Error(`No connection within ${STREAM_TEST_TIMEOUT_MS / 1000}s`)
+      );
+    }, STREAM_TEST_TIMEOUT_MS);
+    es.onopen = () => {
+      clearTimeout(timer);
+      es.close();
+      resolve("Stream opened");
+    };
+    es.onerror = () => {
+      clearTimeout(timer);
+      es.close();
+      reject(new Error("The server refused or dropped the stream"));
+    };
+  });
+}
+
+/**
+ * Checks each layer between the dashboard and the API in turn, so a failure
+ * points at the first broken one. Later checks still run for context.
+ */
+export async function runSelfTest(channelId?: string) {
+  const auth = getAuthState();
+  const results: SelfTestResult[] = [];
+
+  results.push(
+    await timed("API reachable", async () => {
+      await apiRequest("/health");
+      return apiBase;
+    })
+  );
+
+  if (auth.status === "signed-in") {
+    results.push(
+      await timed("Session valid", async () => {
+        await apiRequest("/auth/session");
+        return `Signed in as ${auth.session.user.displayName}`;
+      })
+    );
+  }
+
+  let streamUrl = `${apiBase}/events`;
+  if (channelId) {
+    const token = await timed("Stream token", async () => {
+      const issued = await fetchStreamToken(channelId);
+      const params = new URLSearchParams({ channel: channelId, token: issued });
+      streamUrl += `?${params}`;
+      return "Issued";
+    });
+    results.push(token);
+  }
+
+  results.push(await timed("Event stream", () => probeStream(streamUrl)));
+
+  results.push(
+    await timed("Sound catalog", async () => {
+      const sounds = await fetchSounds();
+      return `${sounds.length} sounds`;
+    })
+  );
+
+  return results;
+}
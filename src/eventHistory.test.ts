@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { createEventRecord, eventsToCsv } from "./eventHistory";
+
+describe("eventsToCsv", () => {
+  it("keeps viewer text from running as a spreadsheet formula", () => {
+    const record = createEventRecord("sound", "-2+3", {
+      username: "=HYPERLINK(\"http://evil\")",
+      rewardName: "@SUM(A1)",
+    });
+
+    const [, row] = eventsToCsv([record]).split("\n");
+
+    expect(row).toContain(`"'=HYPERLINK(""http://evil"")"`);
+    expect(row).toContain(",'@SUM(A1),'-2+3,");
+  });
+});
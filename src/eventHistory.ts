@@ -0,0 +1,299 @@
+import {
+  validateServerEvent,
+  type SoundPayload,
+  type VideoPayload,
+} from "./serverEvents";
+
+/** Where a logged clip came from. */
+export type EventOrigin = "redemption" | "replay";
+
+/** What happened to a logged clip. */
+export type EventOutcome =
+  | "played"
+  | "queued"
+  | "dropped"
+  | "muted"
+  | "paused"
+  | "failed";
+
+/**
+ * Structured facts set when a record is created, so analytics do not have to
+ * parse descriptions. Missing on older records.
+ */
+export interface EventDetails {
+  origin?: EventOrigin;
+  outcome?: EventOutcome;
+}
+
+export interface EventRecord extends EventDetails {
+  id: string;
+  type: string;
+  timestamp: Date;
+  data?: unknown;
+  description: string;
+  /** Id of the channel the event came from; missing on older records. */
+  channel?: string;
+}
+
+export interface HistoryRetention {
+  /** Records older than this are pruned; 0 keeps them forever. */
+  maxAgeDays: number;
+  maxEntries: number;
+}
+
+export interface HistoryFilter {
+  type: string;
+  channel: string;
+  username: string;
+  rewardName: string;
+  search: string;
+  from: string;
+  to: string;
+}
+
+export const emptyHistoryFilter: HistoryFilter = {
+  type: "",
+  channel: "",
+  username: "",
+  rewardName: "",
+  search: "",
+  from: "",
+  to: "",
+};
+
+export const defaultRetention: HistoryRetention = {
+  maxAgeDays: 30,
+  maxEntries: 5000,
+};
+
+const DB_NAME = "hlp-broadcaster-suite";
+const DB_VERSION = 1;
+const STORE = "events";
+
+let nextRecordId = 0;
+
+export function createEventRecord(
+  type: string,
+  description: string,
+  data?: unknown,
+  channel?: string,
+  details: EventDetails = {}
+): EventRecord {
+  const timestamp = new Date();
+  return {
+    id: `${timestamp.getTime()}-${++nextRecordId}`,
+    type,
+    timestamp,
+    data,
+    description,
+    channel,
+    ...details,
+  };
+}
+
+function payloadField(record: EventRecord, key: "username" | "rewardName") {
+  const data = record.data as Record<string, unknown> | undefined;
+  const value = data && typeof data === "object" ? data[key] : undefined;
+  return typeof value === "string" ? value : "";
+}
+
+export const eventUsername = (record: EventRecord) =>
+  payloadField(record, "username");
+
+export const eventRewardName = (record: EventRecord) =>
+  payloadField(record, "rewardName");
+
+/** Finds the payload an event can be replayed with, if any. */
+export function replayablePayload(
+  event: EventRecord
+):
+  | { kind: "sound"; payload: SoundPayload }
+  | { kind: "video"; payload: VideoPayload }
+  | null {
+  if (event.type === "sound") {
+    const result = validateServerEvent("play-sound", event.data);
+    return result.ok ? { kind: "sound", payload: result.value } : null;
+  }
+  if (event.type === "video") {
+    const result = validateServerEvent("play-video", event.data);
+    return result.ok ? { kind: "video", payload: result.value } : null;
+  }
+  return null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("timestamp", "timestamp");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function saveEvent(record: EventRecord) {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).put(record);
+  await done(tx);
+}
+
+/** Loads the stored history, newest first. */
+export async function loadEvents() {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readonly");
+  const request = tx.objectStore(STORE).index("timestamp").getAll();
+  await done(tx);
+  return (request.result as EventRecord[]).reverse();
+}
+
+/** True for records of `channelId` and for untagged records from before channels. */
+export const belongsToChannel = (channelId: string) => (record: EventRecord) =>
+  !record.channel || record.channel === channelId;
+
+/** Deletes the whole history, or only the records `belongsToChannel` matches. */
+export async function clearEvents(channelId?: string) {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  if (channelId === undefined) {
+    store.clear();
+  } else {
+    const matches = belongsToChannel(channelId);
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (matches(cursor.value as EventRecord)) cursor.delete();
+      cursor.continue();
+    };
+  }
+  await done(tx);
+}
+
+/** True when `next` keeps less history than `current`, i.e. would prune. */
+export const shrinksRetention = (
+  current: HistoryRetention,
+  next: HistoryRetention
+) =>
+  next.maxEntries < current.maxEntries ||
+  (next.maxAgeDays > 0 &&
+    (current.maxAgeDays === 0 || next.maxAgeDays < current.maxAgeDays));
+
+/** Deletes records that fall outside the retention window. */
+export async function pruneEvents(retention: HistoryRetention) {
+  const db = await openDb();
+  const tx = db.transaction(STORE, "readwrite");
+  const index = tx.objectStore(STORE).index("timestamp");
+  const cutoff =
+    retention.maxAgeDays > 0
+      ? new Date(Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000)
+      : null;
+  let kept = 0;
+
+  // Walk newest to oldest so the record count limit keeps the latest ones.
+  const cursorRequest = index.openCursor(null, "prev");
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const record = cursor.value as EventRecord;
+    if ((cutoff && record.timestamp < cutoff) || kept >= retention.maxEntries) {
+      cursor.delete();
+    } else {
+      kept += 1;
+    }
+    cursor.continue();
+  };
+  await done(tx);
+}
+
+export function filterEvents(events: EventRecord[], filter: HistoryFilter) {
+  const username = filter.username.trim().toLowerCase();
+  const rewardName = filter.rewardName.trim().toLowerCase();
+  const search = filter.search.trim().toLowerCase();
+  const from = filter.from ? new Date(filter.from) : null;
+  const to = filter.to ? new Date(filter.to) : null;
+
+  return events.filter((record) => {
+    if (filter.type && record.type !== filter.type) return false;
+    if (filter.channel && record.channel !== filter.channel) return false;
+    if (from && record.timestamp < from) return false;
+    if (to && record.timestamp > to) return false;
+    if (username && !eventUsername(record).toLowerCase().includes(username)) {
+      return false;
+    }
+    if (
+      rewardName &&
+      !eventRewardName(record).toLowerCase().includes(rewardName)
+    ) {
+      return false;
+    }
+    if (search) {
+      const haystack = `${record.description} ${JSON.stringify(
+        record.data ?? ""
+      )}`.toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    return true;
+  });
+}
+
+export function eventsToJson(events: EventRecord[]) {
+  return JSON.stringify(events, null, 2);
+}
+
+/**
+ * Quotes a value for CSV. Viewers choose usernames and messages, so cells a
+ * spreadsheet would evaluate as a formula get a leading `'`.
+ */
+function csvCell(value: string) {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function eventsToCsv(events: EventRecord[]) {
+  const header = [
+    "timestamp",
+    "channel",
+    "type",
+    "username",
+    "rewardName",
+    "description",
+    "data",
+  ];
+  const rows = events.map((record) => [
+    record.timestamp.toISOString(),
+    record.channel ?? "",
+    record.type,
+    eventUsername(record),
+    eventRewardName(record),
+    record.description,
+    record.data === undefined ? "" : JSON.stringify(record.data),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { EventStreamClient } from "./eventStream";
+import { MockEventSource } from "./mock";
+
+const latestSource = () => {
+  const source = [...MockEventSource.instances].at(-1);
+  if (!source) throw new Error("No EventSource was created");
+  return source;
+};
+
+function connect(options: ConstructorParameters<typeof EventStreamClient>[1]) {
+  vi.useFakeTimers();
+  const client = new EventStreamClient("http://api.test/events", options);
+  client.retain();
+  latestSource().open();
+  return client;
+}
+
+describe("EventStreamClient", () => {
+  it("keeps retrying at the maximum delay once attempts run out", () => {
+    const client = connect({
+      initialDelayMs: 10,
+      maxDelayMs: 40,
+      maxAttempts: 2,
+    });
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      latestSource().fail();
+      vi.advanceTimersByTime(40);
+    }
+    expect(client.getStatus()).toMatchObject({ state: "failed", attempts: 2 });
+
+    latestSource().open();
+    expect(client.getStatus().state).toBe("connected");
+    client.release();
+  });
+
+  it("only reports a stall once the connection has sent a heartbeat", () => {
+    const client = connect({ stallTimeoutMs: 1000 });
+
+    vi.advanceTimersByTime(10_000);
+    expect(client.getStatus().state).toBe("connected");
+
+    latestSource().emit("heartbeat", { sentAt: Date.now() });
+    vi.advanceTimersByTime(1000);
+    expect(client.getStatus().state).toBe("stalled");
+
+    vi.advanceTimersByTime(1000);
+    expect(client.getStatus().state).toBe("reconnecting");
+    client.release();
+  });
+});
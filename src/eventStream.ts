@@ -0,0 +1,541 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { ApiError } from "./api";
+import {
+  PayloadError,
+  isServerEventType,
+  parseServerEvent,
+  serverEventTypes,
+  type ServerEventMap,
+  type ServerEventType,
+} from "./serverEvents";
+
+export type { SoundPayload, VideoPayload } from "./serverEvents";
+
+export type StreamEventType = ServerEventType;
+
+export type StreamStatus =
+  | { state: "disconnected" }
+  | { state: "connecting" }
+  | { state: "connected"; since: Date }
+  | { state: "stalled"; since: Date; lastMessageAt: Date }
+  | { state: "reconnecting"; attempt: number; delayMs: number }
+  /** Reconnecting keeps failing; retries continue at the maximum delay. */
+  | { state: "failed"; attempts: number; delayMs: number }
+  /** The API refused to issue a stream token; retrying will not help. */
+  | { state: "unauthorized" };
+
+export interface ConnectionLogEntry {
+  at: Date;
+  status: StreamStatus;
+}
+
+/** What the diagnostics panel shows, besides the current status. */
+export interface StreamDiagnostics {
+  /** Reconnects scheduled since the page loaded. */
+  reconnects: number;
+  /** Status changes, newest first. */
+  history: ConnectionLogEntry[];
+}
+
+const HISTORY_LIMIT = 50;
+
+export interface EventStreamOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  /** Consecutive failed attempts before the status turns to `failed`. */
+  maxAttempts?: number;
+  /**
+   * Silence after which an open stream is reported as stalled. Only enforced
+   * once the connection has sent a heartbeat, since a quiet channel without
+   * heartbeats is not a dead one.
+   */
+  stallTimeoutMs?: number;
+  /**
+   * Fetches a fresh token before every connection attempt. EventSource
+   * cannot send headers, so it goes out as the `token` query parameter.
+   */
+  getToken?: () => Promise<string>;
+}
+
+type Handler<K extends StreamEventType> = (
+  payload: ServerEventMap[K],
+  event: MessageEvent
+) => void;
+
+type InvalidHandler = (error: PayloadError, event: MessageEvent) => void;
+
+/** Called for events that are not part of the schema. */
+type UnknownHandler = (name: string, event: MessageEvent) => void;
+
+const defaultOptions: Required<Omit<EventStreamOptions, "getToken">> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxAttempts: 10,
+  stallTimeoutMs: 45000,
+};
+
+/**
+ * Owns a single EventSource connection and replaces the browser's fixed
+ * retry with exponential backoff. A fresh EventSource cannot set the
+ * Last-Event-ID header, so the last seen id is sent as a query parameter
+ * when reconnecting.
+ */
+export class EventStreamClient {
+  readonly url: string;
+  private readonly options: Required<Omit<EventStreamOptions, "getToken">>;
+  private readonly getToken: (() => Promise<string>) | null;
+  private source: EventSource | null = null;
+  private status: StreamStatus = { state: "disconnected" };
+  private attempt = 0;
+  private lastEventId: string | null = null;
+  private lastMessageAt: Date | null = null;
+  /** Whether the current connection sends heartbeats. */
+  private heartbeats = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private stallTimer: ReturnType<typeof setTimeout> | null = null;
+  private refCount = 0;
+  /** Bumped on teardown so a token that arrives late is ignored. */
+  private generation = 0;
+  private handlers = new Map<StreamEventType, Set<Handler<never>>>();
+  private invalidHandlers = new Set<InvalidHandler>();
+  private unknownHandlers = new Set<UnknownHandler>();
+  private statusListeners = new Set<() => void>();
+  private diagnostics: StreamDiagnostics = {
+    reconnects: 0,
+    history: [],
+  };
+
+  constructor(url: string, options: EventStreamOptions = {}) {
+    this.url = url;
+    const { getToken, ...timing } = options;
+    this.options = { ...defaultOptions, ...timing };
+    this.getToken = getToken ?? null;
+  }
+
+  on<K extends StreamEventType>(type: K, handler: Handler<K>) {
+    const set = this.handlers.get(type) ?? new Set();
+    set.add(handler as Handler<never>);
+    this.handlers.set(type, set);
+    return () => {
+      set.delete(handler as Handler<never>);
+    };
+  }
+
+  /** Receives payloads that failed schema validation. */
+  onInvalid(handler: InvalidHandler) {
+    this.invalidHandlers.add(handler);
+    return () => {
+      this.invalidHandlers.delete(handler);
+    };
+  }
+
+  onUnknown(handler: UnknownHandler) {
+    this.unknownHandlers.add(handler);
+    return () => {
+      this.unknownHandlers.delete(handler);
+    };
+  }
+
+  /** Notified on status changes and diagnostics updates. */
+  subscribe = (listener: () => void) => {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  };
+
+  getStatus = () => this.status;
+
+  getLastEventId() {
+    return this.lastEventId;
+  }
+
+  /** Not part of the snapshot because it changes with every message. */
+  getLastMessageAt() {
+    return this.lastMessageAt;
+  }
+
+  getDiagnostics = () => this.diagnostics;
+
+  /** Opens the connection for the first consumer; pair with `release`. */
+  retain() {
+    this.refCount += 1;
+    if (this.refCount === 1) this.connect();
+  }
+
+  release() {
+    this.refCount = Math.max(0, this.refCount - 1);
+    if (this.refCount === 0) this.close();
+  }
+
+  connect() {
+    this.teardown();
+    this.attempt = 0;
+    this.open();
+  }
+
+  close() {
+    this.teardown();
+    this.attempt = 0;
+    this.setStatus({ state: "disconnected" });
+  }
+
+  private open() {
+    // Past the last counted attempt the status stays `failed` while retrying.
+    if (this.attempt <= this.options.maxAttempts) {
+      this.setStatus(
+        this.attempt === 0
+          ? { state: "connecting" }
+          : { state: "reconnecting", attempt: this.attempt, delayMs: 0 }
+      );
+    }
+
+    if (!this.getToken) {
+      this.openSource(null);
+      return;
+    }
+    const generation = this.generation;
+    this.getToken().then(
+      (token) => {
+        if (generation === this.generation) this.openSource(token);
+      },
+      (error: unknown) => {
+        if (generation !== this.generation) return;
+        if (
+          error instanceof ApiError &&
+          (error.status === 401 || error.status === 403)
+        ) {
+          this.setStatus({ state: "unauthorized" });
+        } else {
+          this.scheduleReconnect();
+        }
+      }
+    );
+  }
+
+  private openSource(token: string | null) {
+    const url = new URL(this.url);
+    if (token) url.searchParams.set("token", token);
+    if (this.lastEventId) url.searchParams.set("lastEventId", this.lastEventId);
+    const es = new EventSource(url.toString());
+    this.source = es;
+    this.heartbeats = false;
+
+    es.onopen = () => {
+      this.attempt = 0;
+      this.markAlive();
+      this.setStatus({ state: "connected", since: new Date() });
+    };
+
+    serverEventTypes.forEach((type) => {
+      es.addEventListener(type, (e: MessageEvent) => this.dispatch(type, e));
+    });
+
+    // EventSource only surfaces named events that have a listener, so the
+    // best we can see of unknown events is unnamed messages, which may carry
+    // their name in the payload.
+    es.onmessage = (e: MessageEvent) => {
+      this.markAlive();
+      const name = unnamedEventName(e.data);
+      if (name && isServerEventType(name)) return;
+      console.warn("Unknown server event", name ?? "message", e.data);
+      this.unknownHandlers.forEach((handler) =>
+        handler(name ?? "message", e)
+      );
+    };
+
+    es.onerror = () => {
+      // Take over from the browser's own retry so backoff stays ours.
+      this.teardown();
+      this.scheduleReconnect();
+    };
+  }
+
+  private dispatch(type: StreamEventType, e: MessageEvent) {
+    if (e.lastEventId) this.lastEventId = e.lastEventId;
+    if (type === "heartbeat") this.heartbeats = true;
+    this.markAlive();
+
+    const result = parseServerEvent(
+      type,
+      typeof e.data === "string" ? e.data : ""
+    );
+    if (!result.ok) {
+      console.warn(result.error.message, result.error.raw);
+      this.invalidHandlers.forEach((handler) => handler(result.error, e));
+      return;
+    }
+    this.handlers
+      .get(type)
+      ?.forEach((handler) => handler(result.value as never, e));
+  }
+
+  private scheduleReconnect() {
+    this.attempt += 1;
+    const { initialDelayMs, maxDelayMs, maxAttempts } = this.options;
+    // Never give up: an overlay in OBS has nobody to press Retry.
+    const failed = this.attempt > maxAttempts;
+    const base = failed
+      ? maxDelayMs
+      : Math.min(maxDelayMs, initialDelayMs * 2 ** (this.attempt - 1));
+    const delayMs = Math.round(base / 2 + Math.random() * (base / 2));
+    this.diagnostics = {
+      ...this.diagnostics,
+      reconnects: this.diagnostics.reconnects + 1,
+    };
+    if (!failed) {
+      this.setStatus({ state: "reconnecting", attempt: this.attempt, delayMs });
+    } else if (this.status.state !== "failed") {
+      this.setStatus({ state: "failed", attempts: maxAttempts, delayMs });
+    } else {
+      this.notify();
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.open();
+    }, delayMs);
+  }
+
+  private markAlive() {
+    this.lastMessageAt = new Date();
+    if (this.stallTimer) clearTimeout(this.stallTimer);
+    this.stallTimer = this.heartbeats
+      ? setTimeout(() => this.onSilence(), this.options.stallTimeoutMs)
+      : null;
+    if (this.status.state === "stalled") {
+      this.setStatus({ state: "connected", since: this.status.since });
+    }
+  }
+
+  private onSilence() {
+    const { status, lastMessageAt } = this;
+    if (status.state === "connected" && lastMessageAt) {
+      this.setStatus({ state: "stalled", since: status.since, lastMessageAt });
+      this.stallTimer = setTimeout(
+        () => this.onSilence(),
+        this.options.stallTimeoutMs
+      );
+    } else if (status.state === "stalled") {
+      // Still nothing after a second timeout: assume the socket is dead.
+      this.teardown();
+      this.scheduleReconnect();
+    }
+  }
+
+  private teardown() {
+    this.generation += 1;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.stallTimer) clearTimeout(this.stallTimer);
+    this.retryTimer = null;
+    this.stallTimer = null;
+    this.source?.close();
+    this.source = null;
+  }
+
+  private setStatus(status: StreamStatus) {
+    this.status = status;
+    this.diagnostics = {
+      ...this.diagnostics,
+      history: [{ at: new Date(), status }, ...this.diagnostics.history].slice(
+        0,
+        HISTORY_LIMIT
+      ),
+    };
+    this.notify();
+  }
+
+  private notify() {
+    this.statusListeners.forEach((listener) => listener());
+  }
+}
+
+function unnamedEventName(data: unknown) {
+  if (typeof data !== "string") return null;
+  try {
+    const parsed = JSON.parse(data) as { event?: unknown; type?: unknown };
+    const name = parsed.event ?? parsed.type;
+    return typeof name === "string" ? name : null;
+  } catch {
+    return null;
+  }
+}
+
+const clients = new Map<string, EventStreamClient>();
+
+/**
+ * Returns the shared client for `url`, creating it on first use. `options`
+ * only apply to the call that creates the client.
+ */
+export function getEventStream(url: string, options?: EventStreamOptions) {
+  let client = clients.get(url);
+  if (!client) {
+    client = new EventStreamClient(url, options);
+    clients.set(url, client);
+  }
+  return client;
+}
+
+/** Keeps the client connected while the calling component is mounted. */
+export function useEventStream(client: EventStreamClient) {
+  useEffect(() => {
+    client.retain();
+    return () => client.release();
+  }, [client]);
+  return useSyncExternalStore(client.subscribe, client.getStatus);
+}
+
+/**
+ * Subscribes to one event type. The latest `handler` is always called, so
+ * callers do not need to memoize it and the connection is never reopened.
+ */
+export function useStreamEvent<K extends StreamEventType>(
+  client: EventStreamClient,
+  type: K,
+  handler: Handler<K>
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  useEffect(
+    () => client.on(type, (payload, e) => handlerRef.current(payload, e)),
+    [client, type]
+  );
+}
+
+/** Reports payloads that failed validation and events outside the schema. */
+export function useStreamIssues(
+  client: EventStreamClient,
+  onInvalid: InvalidHandler,
+  onUnknown: UnknownHandler
+) {
+  const handlersRef = useRef({ onInvalid, onUnknown });
+  handlersRef.current = { onInvalid, onUnknown };
+  useEffect(() => {
+    const offInvalid = client.onInvalid((error, e) =>
+      handlersRef.current.onInvalid(error, e)
+    );
+    const offUnknown = client.onUnknown((name, e) =>
+      handlersRef.current.onUnknown(name, e)
+    );
+    return () => {
+      offInvalid();
+      offUnknown();
+    };
+  }, [client]);
+}
+
+export function describeStatus(status: StreamStatus) {
+  switch (status.state) {
+    case "reconnecting":
+      return `reconnecting (attempt ${status.attempt})`;
+    case "failed":
+      return "offline, retrying";
+    default:
+      return status.state;
+  }
+}
+
+/** The log line for a status change, or null when it is not worth logging. */
+export function describeStatusChange(
+  status: StreamStatus
+): { type: string; description: string } | null {
+  switch (status.state) {
+    case "connecting":
+      return { type: "system", description: "Connecting to server..." };
+    case "connected":
+      return { type: "connection", description: "Connected to server" };
+    case "stalled":
+      return {
+        type: "error",
+        description: `No data since ${status.lastMessageAt.toLocaleTimeString()}, stream stalled`,
+      };
+    case "reconnecting":
+      return status.delayMs > 0
+        ? {
+            type: "error",
+            description: `Connection lost, reconnecting in ${Math.ceil(
+              status.delayMs / 1000
+            )}s (attempt ${status.attempt})`,
+          }
+        : null;
+    case "failed":
+      return {
+        type: "error",
+        description: `Could not reconnect after ${
+          status.attempts
+        } attempts, still retrying every ~${Math.ceil(
+          status.delayMs / 1000
+        )}s`,
+      };
+    case "disconnected":
+      return { type: "system", description: "Disconnected from server" };
+    case "unauthorized":
+      return { type: "error", description: "The server refused the stream token" };
+  }
+}
+
+/** Calls `log` for the current status and every later change. */
+export function useStatusLog(
+  client: EventStreamClient,
+  log: (type: string, description: string) => void
+) {
+  const logRef = useRef(log);
+  logRef.current = log;
+  useEffect(() => {
+    let last: StreamStatus | null = null;
+    const report = () => {
+      // Listeners also fire for diagnostics updates; log real changes only.
+      const status = client.getStatus();
+      if (status === last) return;
+      last = status;
+      const entry = describeStatusChange(status);
+      if (entry) logRef.current(entry.type, entry.description);
+    };
+    report();
+    return client.subscribe(report);
+  }, [client]);
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds]
+    .map((part) => part.toString().padStart(2, "0"))
+    .join(":");
+};
+
+/** Time connected as `hh:mm:ss`, ticking every second. */
+export function useUptime(status: StreamStatus) {
+  const connectedAt =
+    status.state === "connected" || status.state === "stalled"
+      ? status.since
+      : null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!connectedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [connectedAt]);
+
+  return connectedAt
+    ? formatDuration(Math.max(0, now - connectedAt.getTime()))
+    : "00:00:00";
+}
+
+/** Connection history for the diagnostics panel. */
+export function useStreamDiagnostics(client: EventStreamClient) {
+  return useSyncExternalStore(client.subscribe, client.getDiagnostics);
+}
+
+/** How long the stream has been silent, ticking every second. */
+export function useSilence(client: EventStreamClient) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  const lastMessageAt = client.getLastMessageAt();
+  return lastMessageAt ? Math.max(0, now - lastMessageAt.getTime()) : null;
+}
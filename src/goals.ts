@@ -0,0 +1,187 @@
+import { useSyncExternalStore } from "react";
+import { broadcastEvent } from "./api";
+import type { GoalProgressPayload } from "./serverEvents";
+
+export interface Goal {
+  id: string;
+  label: string;
+  /** Reward that counts towards the goal; empty counts every redemption. */
+  rewardName: string;
+  target: number;
+  count: number;
+  /** ISO time the target was first reached. */
+  completedAt: string | null;
+}
+
+export type NewGoal = Pick<Goal, "label" | "rewardName" | "target">;
+
+interface GoalsState {
+  goals: Goal[];
+  /**
+   * Redemption ids already counted, newest last. Guards against two open
+   * dashboards and events replayed after a reconnect counting twice.
+   */
+  counted: string[];
+}
+
+const GOALS_KEY = "hlp.goals";
+const MAX_COUNTED_IDS = 200;
+
+const emptyState: GoalsState = { goals: [], counted: [] };
+
+function normalizeGoal(raw: Partial<Goal>): Goal | null {
+  if (typeof raw.id !== "string" || typeof raw.label !== "string") return null;
+  const target = Math.max(1, Math.round(Number(raw.target) || 1));
+  const count = Math.max(0, Math.round(Number(raw.count) || 0));
+  return {
+    id: raw.id,
+    label: raw.label,
+    rewardName: typeof raw.rewardName === "string" ? raw.rewardName : "",
+    target,
+    count,
+    completedAt:
+      typeof raw.completedAt === "string" && count >= target
+        ? raw.completedAt
+        : null,
+  };
+}
+
+function loadGoals(): GoalsState {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GOALS_KEY) ?? "null");
+    if (!stored || !Array.isArray(stored.goals)) return emptyState;
+    return {
+      goals: stored.goals
+        .map(normalizeGoal)
+        .filter((goal: Goal | null): goal is Goal => goal !== null),
+      counted: Array.isArray(stored.counted)
+        ? stored.counted.filter((id: unknown) => typeof id === "string")
+        : [],
+    };
+  } catch {
+    return emptyState;
+  }
+}
+
+let current = loadGoals();
+const listeners = new Set<() => void>();
+
+function commit(next: GoalsState) {
+  current = next;
+  localStorage.setItem(GOALS_KEY, JSON.stringify(current));
+  listeners.forEach((listener) => listener());
+}
+
+export function getGoals() {
+  return current.goals;
+}
+
+/** Matches redemptions of any reward when the goal has none. */
+export const countsTowards = (goal: Goal, rewardName: string) =>
+  goal.rewardName === "" ||
+  goal.rewardName.toLowerCase() === rewardName.toLowerCase();
+
+export const isComplete = (goal: Goal) => goal.count >= goal.target;
+
+const withCount = (goal: Goal, count: number): Goal => {
+  const next = { ...goal, count: Math.max(0, count) };
+  return {
+    ...next,
+    completedAt: isComplete(next)
+      ? goal.completedAt ?? new Date().toISOString()
+      : null,
+  };
+};
+
+export function addGoal({ label, rewardName, target }: NewGoal) {
+  const goal: Goal = {
+    id: crypto.randomUUID(),
+    label: label.trim() || (rewardName.trim() ? rewardName.trim() : "Goal"),
+    rewardName: rewardName.trim(),
+    target: Math.max(1, Math.round(target)),
+    count: 0,
+    completedAt: null,
+  };
+  commit({ ...current, goals: [...current.goals, goal] });
+  return goal;
+}
+
+function replaceGoal(id: string, update: (goal: Goal) => Goal) {
+  const existing = current.goals.find((goal) => goal.id === id);
+  if (!existing) return null;
+  const updated = update(existing);
+  commit({
+    ...current,
+    goals: current.goals.map((goal) => (goal.id === id ? updated : goal)),
+  });
+  return updated;
+}
+
+/** Changes a goal's count by `delta`, e.g. to correct a miscount by hand. */
+export const adjustGoal = (id: string, delta: number) =>
+  replaceGoal(id, (goal) => withCount(goal, goal.count + delta));
+
+export const resetGoal = (id: string) =>
+  replaceGoal(id, (goal) => withCount(goal, 0));
+
+export function removeGoal(id: string) {
+  const removed = current.goals.find((goal) => goal.id === id) ?? null;
+  commit({
+    ...current,
+    goals: current.goals.filter((goal) => goal.id !== id),
+  });
+  return removed;
+}
+
+/**
+ * Counts one redemption towards every matching goal. Returns the goals that
+ * changed; redemptions already counted return none.
+ */
+export function countRedemption(rewardName: string, redemptionId?: string) {
+  if (redemptionId && current.counted.includes(redemptionId)) return [];
+  const changed: Goal[] = [];
+  const goals = current.goals.map((goal) => {
+    if (!countsTowards(goal, rewardName)) return goal;
+    const updated = withCount(goal, goal.count + 1);
+    changed.push(updated);
+    return updated;
+  });
+  const counted = redemptionId
+    ? [...current.counted, redemptionId].slice(-MAX_COUNTED_IDS)
+    : current.counted;
+  commit({ goals, counted });
+  return changed;
+}
+
+export function toGoalProgress(goal: Goal, removed = false): GoalProgressPayload {
+  return {
+    goalId: goal.id,
+    label: goal.label,
+    count: goal.count,
+    target: goal.target,
+    ...(goal.rewardName && { rewardName: goal.rewardName }),
+    ...(removed && { removed }),
+  };
+}
+
+/** Sends a goal's progress to the goals overlay through the API. */
+export const publishGoal = (goal: Goal, removed = false) =>
+  broadcastEvent("goal-progress", toGoalProgress(goal, removed));
+
+// Keep several open dashboard tabs in sync.
+window.addEventListener("storage", (e) => {
+  if (e.key !== GOALS_KEY) return;
+  current = loadGoals();
+  listeners.forEach((listener) => listener());
+});
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export function useGoals() {
+  return useSyncExternalStore(subscribe, getGoals);
+}
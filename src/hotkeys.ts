@@ -0,0 +1,38 @@
+const MODIFIER_KEYS = ["Control", "Shift", "Alt", "Meta"];
+
+/**
+ * Turns a key press into a stable combo string such as `Ctrl+Shift+KeyS`.
+ * Uses `code` so bindings survive keyboard layout and Shift changes.
+ * Returns null for a lone modifier key.
+ */
+export function comboFromEvent(e: KeyboardEvent) {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push("Ctrl");
+  if (e.altKey) parts.push("Alt");
+  if (e.shiftKey) parts.push("Shift");
+  if (e.metaKey) parts.push("Meta");
+  parts.push(e.code);
+  return parts.join("+");
+}
+
+/** Human-friendly label for a combo, e.g. `Ctrl+Shift+S`. */
+export function formatCombo(combo: string) {
+  return combo
+    .split("+")
+    .map((part) => part.replace(/^Key/, "").replace(/^Digit/, ""))
+    .join("+");
+}
+
+/** True when the key press is meant for a text field, not a hotkey. */
+export function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) {
+    return !["range", "checkbox", "radio", "button"].includes(target.type);
+  }
+  return (
+    target.isContentEditable ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+}
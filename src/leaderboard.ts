@@ -0,0 +1,136 @@
+import { isRedemption, SESSION_GAP_MS, splitSessions } from "./analytics";
+import { broadcastEvent } from "./api";
+import {
+  eventRewardName,
+  eventUsername,
+  type EventRecord,
+} from "./eventHistory";
+import type { LeaderboardPayload } from "./serverEvents";
+
+export type LeaderboardScope = "session" | "all-time";
+export type LeaderboardSort = "redemptions" | "recent" | "name";
+
+export interface LeaderboardEntry {
+  username: string;
+  redemptions: number;
+  sounds: number;
+  videos: number;
+  lastRedeemed: Date;
+  /** The reward this viewer redeemed most. */
+  favoriteReward: string;
+}
+
+/** What the overlay receives per viewer; the first entry ranks highest. */
+export type LeaderboardRow = LeaderboardPayload["entries"][number];
+
+/** Epoch milliseconds of the last reset per scope; 0 means never. */
+export type LeaderboardResets = Record<LeaderboardScope, number>;
+
+export const leaderboardScopes: LeaderboardScope[] = ["session", "all-time"];
+
+export const scopeLabels: Record<LeaderboardScope, string> = {
+  session: "This session",
+  "all-time": "All-time",
+};
+
+/** How many rows the dashboard sends to the leaderboard overlay. */
+export const OVERLAY_ROWS = 10;
+
+/**
+ * Records of the stream session in progress, newest first. Empty once the
+ * history has been quiet for a session gap.
+ */
+export function currentSessionEvents(events: EventRecord[], now = Date.now()) {
+  const [latest] = splitSessions(events);
+  if (!latest || now - latest.end.getTime() > SESSION_GAP_MS) return [];
+  return [...latest.events].reverse();
+}
+
+/** Records a scope counts, newest first, honouring its last reset. */
+export function scopeEvents(
+  events: EventRecord[],
+  scope: LeaderboardScope,
+  resets: LeaderboardResets,
+  now = Date.now()
+) {
+  const records =
+    scope === "session" ? currentSessionEvents(events, now) : events;
+  // An all-time reset starts the session over as well.
+  const since =
+    scope === "session"
+      ? Math.max(resets.session, resets["all-time"])
+      : resets["all-time"];
+  return records.filter((record) => record.timestamp.getTime() > since);
+}
+
+/** Tallies redemptions per viewer, most redemptions first. */
+export function buildLeaderboard(events: EventRecord[]): LeaderboardEntry[] {
+  const byUser = new Map<
+    string,
+    LeaderboardEntry & { rewards: Map<string, number> }
+  >();
+  events.filter(isRedemption).forEach((record) => {
+    const username = eventUsername(record);
+    const key = username.toLowerCase();
+    const entry = byUser.get(key) ?? {
+      username,
+      redemptions: 0,
+      sounds: 0,
+      videos: 0,
+      lastRedeemed: record.timestamp,
+      favoriteReward: "",
+      rewards: new Map<string, number>(),
+    };
+    entry.redemptions += 1;
+    if (record.type === "sound") entry.sounds += 1;
+    else entry.videos += 1;
+    if (record.timestamp > entry.lastRedeemed) {
+      entry.lastRedeemed = record.timestamp;
+      entry.username = username;
+    }
+    const reward = eventRewardName(record);
+    if (reward) entry.rewards.set(reward, (entry.rewards.get(reward) ?? 0) + 1);
+    byUser.set(key, entry);
+  });
+
+  return sortLeaderboard(
+    Array.from(byUser.values(), ({ rewards, ...entry }) => ({
+      ...entry,
+      favoriteReward:
+        Array.from(rewards).sort(
+          (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+        )[0]?.[0] ?? "",
+    })),
+    "redemptions"
+  );
+}
+
+export function sortLeaderboard(
+  entries: LeaderboardEntry[],
+  sort: LeaderboardSort
+) {
+  const byName = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+    a.username.localeCompare(b.username);
+  return [...entries].sort((a, b) => {
+    if (sort === "name") return byName(a, b);
+    if (sort === "recent") {
+      return b.lastRedeemed.getTime() - a.lastRedeemed.getTime();
+    }
+    return b.redemptions - a.redemptions || byName(a, b);
+  });
+}
+
+export const toLeaderboardRows = (
+  entries: LeaderboardEntry[]
+): LeaderboardRow[] =>
+  entries
+    .slice(0, OVERLAY_ROWS)
+    .map(({ username, redemptions }) => ({ username, count: redemptions }));
+
+/** Sends a scope's top viewers to the leaderboard overlay through the API. */
+export function publishLeaderboard(
+  scope: LeaderboardScope,
+  rows: LeaderboardRow[]
+) {
+  return broadcastEvent("leaderboard", { scope, entries: rows });
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+import { attachLoudnessLimiter, detachLoudnessLimiter } from "./loudness";
+
+/** Just enough of Web Audio for the limiter graph; jsdom has none. */
+class FakeAudioContext extends EventTarget {
+  static instances: FakeAudioContext[] = [];
+  state: AudioContextState = "running";
+  currentTime = 0;
+  destination = {};
+  constructor() {
+    super();
+    FakeAudioContext.instances.push(this);
+  }
+  private node = () => {
+    const param = () => ({
+      value: 0,
+      setTargetAtTime: () => undefined,
+      setValueAtTime: () => undefined,
+      cancelScheduledValues: () => undefined,
+    });
+    return {
+      connect: () => undefined,
+      fftSize: 0,
+      gain: param(),
+      threshold: param(),
+      knee: param(),
+      ratio: param(),
+      attack: param(),
+      release: param(),
+      getFloatTimeDomainData: () => undefined,
+    };
+  };
+  createMediaElementSource = this.node;
+  createAnalyser = this.node;
+  createGain = this.node;
+  createDynamicsCompressor = this.node;
+  resume = async () => undefined;
+  close = async () => {
+    this.state = "closed";
+    this.dispatchEvent(new Event("statechange"));
+  };
+}
+
+describe("attachLoudnessLimiter", () => {
+  it("stops metering once the element is detached", () => {
+    vi.stubGlobal("AudioContext", FakeAudioContext);
+    const clear = vi.spyOn(globalThis, "clearInterval");
+    const element = document.createElement("video");
+
+    const limiter = attachLoudnessLimiter(element);
+    expect(attachLoudnessLimiter(element)).toBe(limiter);
+
+    detachLoudnessLimiter(element);
+
+    expect(clear).toHaveBeenCalled();
+    expect(FakeAudioContext.instances.at(-1)?.state).toBe("closed");
+  });
+});
@@ -0,0 +1,121 @@
+export interface LoudnessLimiterOptions {
+  /** Short-term RMS level that clips are steered towards. */
+  targetRms?: number;
+  minGain?: number;
+  maxGain?: number;
+}
+
+export interface LoudnessLimiter {
+  setVolume: (volume: number) => void;
+  /** Forgets the previous clip's loudness; call before each new source. */
+  reset: () => void;
+}
+
+const defaults: Required<LoudnessLimiterOptions> = {
+  targetRms: 0.1,
+  minGain: 0.2,
+  maxGain: 2,
+};
+
+const MEASURE_INTERVAL_MS = 100;
+const SILENCE_RMS = 0.002;
+
+interface AttachedLimiter {
+  handle: LoudnessLimiter;
+  teardown: () => void;
+}
+
+const limiters = new WeakMap<HTMLMediaElement, AttachedLimiter>();
+
+/**
+ * Routes a media element through Web Audio so that badly mastered clips
+ * cannot blast viewers: an automatic gain steers the measured RMS towards
+ * a target level and a hard compressor catches whatever peaks remain.
+ *
+ * An element can only ever feed one audio graph, so the limiter is created
+ * once per element and reused. Cross-origin media needs
+ * `crossOrigin="anonymous"` plus CORS headers or it plays silent.
+ */
+export function attachLoudnessLimiter(
+  element: HTMLMediaElement,
+  options: LoudnessLimiterOptions = {}
+): LoudnessLimiter {
+  const existing = limiters.get(element);
+  if (existing) return existing.handle;
+
+  const { targetRms, minGain, maxGain } = { ...defaults, ...options };
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(element);
+  const analyser = context.createAnalyser();
+  const normalizer = context.createGain();
+  const volume = context.createGain();
+  const limiter = context.createDynamicsCompressor();
+
+  analyser.fftSize = 2048;
+  limiter.threshold.value = -6;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.25;
+
+  source.connect(analyser);
+  source.connect(normalizer);
+  normalizer.connect(volume);
+  volume.connect(limiter);
+  limiter.connect(context.destination);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let loudness: number | null = null;
+
+  const measure = () => {
+    if (element.paused) return;
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    const rms = Math.sqrt(sum / samples.length);
+    if (rms < SILENCE_RMS) return;
+
+    // Slow moving average so the gain follows the clip, not each transient.
+    loudness = loudness === null ? rms : loudness * 0.9 + rms * 0.1;
+    const gain = Math.min(maxGain, Math.max(minGain, targetRms / loudness));
+    normalizer.gain.setTargetAtTime(gain, context.currentTime, 0.3);
+  };
+  const meter = setInterval(measure, MEASURE_INTERVAL_MS);
+
+  const resume = () => {
+    if (context.state === "suspended") context.resume().catch(() => undefined);
+  };
+  element.addEventListener("play", resume);
+
+  const teardown = () => {
+    clearInterval(meter);
+    element.removeEventListener("play", resume);
+    limiters.delete(element);
+    if (context.state !== "closed") context.close().catch(() => undefined);
+  };
+  // Also covers a context the browser closes on its own.
+  context.addEventListener("statechange", () => {
+    if (context.state === "closed") teardown();
+  });
+
+  const handle: LoudnessLimiter = {
+    setVolume: (value) => {
+      volume.gain.setTargetAtTime(value, context.currentTime, 0.05);
+    },
+    reset: () => {
+      loudness = null;
+      normalizer.gain.cancelScheduledValues(context.currentTime);
+      normalizer.gain.setValueAtTime(1, context.currentTime);
+    },
+  };
+  limiters.set(element, { handle, teardown });
+  return handle;
+}
+
+/**
+ * Stops metering and closes the element's audio graph, if it has one. Call
+ * when the element goes away: it cannot be routed through a new graph.
+ */
+export function detachLoudnessLimiter(element: HTMLMediaElement) {
+  limiters.get(element)?.teardown();
+}
@@ -2,6 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { mockMode } from './config'
+
+// Before the first render, so no request reaches the real API. Loaded on
+// demand so the demo server and its sample media stay out of real builds.
+if (mockMode) {
+  const { installMockServer } = await import('./mock')
+  installMockServer()
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,71 @@
+/**
+ * Stands in for the browser's EventSource. Nothing touches the network:
+ * whoever holds the instance calls `emit` to deliver events and `fail` to
+ * simulate a dropped connection.
+ */
+export class MockEventSource extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSED = 2;
+
+  /** Sources that have not been closed, oldest first. */
+  static readonly instances = new Set<MockEventSource>();
+  /** When false, sources stay connecting until `open` is called. */
+  static autoOpen = true;
+  /** Called whenever a source opens, e.g. to send `connected`. */
+  static onOpen: ((source: MockEventSource) => void) | null = null;
+
+  readonly url: string;
+  readonly withCredentials = false;
+  readyState: number = MockEventSource.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(url: string | URL) {
+    super();
+    this.url = String(url);
+    MockEventSource.instances.add(this);
+    if (MockEventSource.autoOpen) {
+      // A real EventSource never opens synchronously either.
+      setTimeout(() => {
+        if (this.readyState === MockEventSource.CONNECTING) this.open();
+      }, 0);
+    }
+  }
+
+  open() {
+    this.readyState = MockEventSource.OPEN;
+    const event = new Event("open");
+    this.onopen?.(event);
+    this.dispatchEvent(event);
+    MockEventSource.onOpen?.(this);
+  }
+
+  /** Delivers a named event; objects are sent as JSON. */
+  emit(type: string, data: unknown = "", lastEventId = "") {
+    if (this.readyState !== MockEventSource.OPEN) return;
+    const event = new MessageEvent(type, {
+      data: typeof data === "string" ? data : JSON.stringify(data),
+      lastEventId,
+    });
+    if (type === "message") this.onmessage?.(event);
+    this.dispatchEvent(event);
+  }
+
+  /** Simulates the server going away. */
+  fail() {
+    this.close();
+    const event = new Event("error");
+    this.onerror?.(event);
+    this.dispatchEvent(event);
+  }
+
+  close() {
+    this.readyState = MockEventSource.CLOSED;
+    MockEventSource.instances.delete(this);
+  }
+}
@@ -0,0 +1,8 @@
+export { MockEventSource } from "./eventSource";
+export {
+  dropMockConnections,
+  emitMockEvent,
+  emitRandomRedemption,
+  installMockServer,
+  setMockSchedule,
+} from "./server";
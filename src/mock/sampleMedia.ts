@@ -0,0 +1,157 @@
+import type { SoundFile, VideoFile } from "../api";
+
+/**
+ * Demo clips are synthesized in the browser, so the repository carries no
+ * binary media and the demo works without any files being served.
+ */
+
+const SAMPLE_RATE = 22050;
+
+type Waveform = (t: number) => number;
+
+/** Encodes a mono 16-bit PCM WAV file. */
+function encodeWav(durationS: number, wave: Waveform) {
+  const samples = Math.round(durationS * SAMPLE_RATE);
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+  const text = (offset: number, value: string) =>
+    [...value].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  text(0, "RIFF");
+  view.setUint32(4, 36 + samples * 2, true);
+  text(8, "WAVE");
+  text(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  text(36, "data");
+  view.setUint32(40, samples * 2, true);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.max(-1, Math.min(1, wave(i / SAMPLE_RATE)));
+    view.setInt16(44 + i * 2, value * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+const sine = (frequency: number, t: number) =>
+  Math.sin(2 * Math.PI * frequency * t);
+
+const decay = (t: number, rate: number) => Math.exp(-t * rate);
+
+const waveforms: Record<string, { durationS: number; wave: Waveform }> = {
+  "chime.wav": {
+    durationS: 1.2,
+    wave: (t) =>
+      0.5 * sine(880, t) * decay(t, 4) +
+      (t > 0.15 ? 0.5 * sine(1320, t) * decay(t - 0.15, 4) : 0),
+  },
+  "airhorn.wav": {
+    durationS: 1,
+    wave: (t) => {
+      const f = 440 + 6 * sine(6, t);
+      const saw = 2 * ((f * t) % 1) - 1;
+      return 0.35 * saw * Math.min(1, t * 20) * Math.min(1, (1 - t) * 10);
+    },
+  },
+  "boing.wav": {
+    durationS: 0.8,
+    wave: (t) => 0.6 * sine(180 + 420 * decay(t, 5), t) * decay(t, 3),
+  },
+};
+
+const videoScenes: Record<string, { label: string; hue: number }> = {
+  "confetti.webm": { label: "🎉 Confetti!", hue: 280 },
+  "hydrate.webm": { label: "💧 Hydrate", hue: 200 },
+};
+
+const VIDEO_SECONDS = 3;
+
+/** Records a short canvas animation; null where MediaRecorder is missing. */
+function recordVideo(label: string, hue: number) {
+  if (typeof MediaRecorder === "undefined") return Promise.resolve(null);
+  const canvas = document.createElement("canvas");
+  canvas.width = 640;
+  canvas.height = 360;
+  const context = canvas.getContext("2d");
+  if (!context || !("captureStream" in canvas)) return Promise.resolve(null);
+
+  return new Promise<Blob | null>((resolve) => {
+    const recorder = new MediaRecorder(canvas.captureStream(30), {
+      mimeType: "video/webm",
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => resolve(new Blob(chunks, { type: "video/webm" }));
+    recorder.onerror = () => resolve(null);
+
+    const started = performance.now();
+    // setInterval, not requestAnimationFrame, so background tabs still render.
+    const timer = setInterval(() => {
+      const t = (performance.now() - started) / 1000;
+      if (t >= VIDEO_SECONDS) {
+        clearInterval(timer);
+        recorder.stop();
+        return;
+      }
+      context.fillStyle = `hsl(${hue + t * 40}, 70%, 35%)`;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.fillStyle = "#fff";
+      context.font = "bold 56px sans-serif";
+      context.textAlign = "center";
+      context.fillText(label, 320, 190 + Math.sin(t * 6) * 40);
+    }, 1000 / 30);
+    recorder.start();
+  });
+}
+
+export const sampleSounds: SoundFile[] = Object.keys(waveforms).map(
+  (filename) => ({ filename, src: `/media/sounds/${filename}` })
+);
+
+export const sampleVideos: VideoFile[] = Object.keys(videoScenes).map(
+  (filename) => ({ filename, src: `/media/videos/${filename}` })
+);
+
+/** Generates every sample clip, keyed by its `src`. */
+export async function generateSampleMedia() {
+  const media = new Map<string, Blob>();
+  sampleSounds.forEach(({ filename, src }) => {
+    const { durationS, wave } = waveforms[filename];
+    media.set(src, encodeWav(durationS, wave));
+  });
+  const videos = await Promise.all(
+    sampleVideos.map(({ filename }) =>
+      recordVideo(videoScenes[filename].label, videoScenes[filename].hue)
+    )
+  );
+  videos.forEach((blob, index) => {
+    if (blob) media.set(sampleVideos[index].src, blob);
+  });
+  return media;
+}
+
+export const sampleViewers = [
+  "PixelPanda",
+  "NightOwl_42",
+  "CaptainCozy",
+  "LunaLurks",
+  "ByteBandit",
+];
+
+export const sampleRewards: Record<string, string> = {
+  "chime.wav": "Ding!",
+  "airhorn.wav": "Airhorn",
+  "boing.wav": "Boing",
+  "confetti.webm": "Confetti",
+  "hydrate.webm": "Hydrate",
+};
+
+export const sampleMessages = [
+  "Hello from the demo server!",
+  "This one goes out to everyone in chat",
+  "Drink some water please",
+];
@@ -0,0 +1,193 @@
+import { provideAsset } from "../assetCache";
+import { completeLogin, getAuthState } from "../auth";
+import { apiBase } from "../config";
+import type { ServerEventMap, ServerEventType } from "../serverEvents";
+import { MockEventSource } from "./eventSource";
+import {
+  generateSampleMedia,
+  sampleMessages,
+  sampleRewards,
+  sampleSounds,
+  sampleVideos,
+  sampleViewers,
+} from "./sampleMedia";
+
+const HEARTBEAT_MS = 15000;
+/** Makes the demo feel like a network without slowing it down. */
+const RESPONSE_DELAY_MS = 50;
+const DEMO_CHANNEL = { id: "demo", login: "demo", displayName: "Demo Channel" };
+
+interface RelayedEvent {
+  type: ServerEventType;
+  data: unknown;
+  id: string;
+}
+
+// Other tabs of the same browser, so a dashboard can drive open overlays.
+const relay =
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel("hlp-mock")
+    : null;
+
+let media: Promise<Map<string, Blob>> | null = null;
+let scheduleTimer: ReturnType<typeof setInterval> | null = null;
+let nextEventId = 0;
+
+function deliver({ type, data, id }: RelayedEvent) {
+  MockEventSource.instances.forEach((source) => source.emit(type, data, id));
+}
+
+/** Sends an event to every demo stream in this browser, like `/broadcast`. */
+export async function emitMockEvent<K extends ServerEventType>(
+  type: K,
+  data: ServerEventMap[K]
+) {
+  // Clips are generated on startup; events that name them wait for them.
+  await media;
+  const event = { type, data, id: `${Date.now()}-${++nextEventId}` };
+  deliver(event);
+  relay?.postMessage(event);
+}
+
+const pickOne = <T>(items: T[]) =>
+  items[Math.floor(Math.random() * items.length)];
+
+/** Sends a redemption from a random viewer, as Twitch would. */
+export function emitRandomRedemption(
+  kind: "sound" | "video" = Math.random() < 0.75 ? "sound" : "video",
+  withMessage = Math.random() < 0.3
+) {
+  const username = pickOne(sampleViewers);
+  const redemptionId = crypto.randomUUID();
+  if (kind === "video" && sampleVideos.length > 0) {
+    const video = pickOne(sampleVideos);
+    return emitMockEvent("play-video", {
+      src: video.src,
+      username,
+      rewardName: sampleRewards[video.filename],
+      redemptionId,
+    });
+  }
+  const sound = pickOne(sampleSounds);
+  return emitMockEvent("play-sound", {
+    src: sound.src,
+    filename: sound.filename,
+    username,
+    rewardName: sampleRewards[sound.filename],
+    redemptionId,
+    ...(withMessage && { message: pickOne(sampleMessages) }),
+  });
+}
+
+/** Sends a random redemption every `seconds`; 0 stops. */
+export function setMockSchedule(seconds: number) {
+  if (scheduleTimer) clearInterval(scheduleTimer);
+  scheduleTimer =
+    seconds > 0
+      ? setInterval(() => emitRandomRedemption(), seconds * 1000)
+      : null;
+}
+
+/** Drops every demo stream in this tab, to watch the client reconnect. */
+export function dropMockConnections() {
+  [...MockEventSource.instances].forEach((source) => source.fail());
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+async function respond(method: string, path: string, request: Request) {
+  const body = async () => (await request.json()) as Record<string, unknown>;
+
+  switch (`${method} ${path}`) {
+    case "GET /health":
+      return json({ ok: true, mock: true });
+    case "GET /auth/session":
+      return json({
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        user: DEMO_CHANNEL,
+        channels: [DEMO_CHANNEL],
+      });
+    case "GET /auth/stream-token":
+      return json({ token: "demo-stream" });
+    case "POST /auth/overlay-tokens":
+      return json({ token: "demo-overlay" });
+    case "POST /auth/logout":
+    case "POST /redemptions/decision":
+      return new Response(null, { status: 204 });
+    case "GET /sounds":
+      return json(sampleSounds);
+    case "GET /videos":
+      return json(sampleVideos);
+    case "POST /broadcast": {
+      const { event, data } = await body();
+      await emitMockEvent(event as ServerEventType, data as never);
+      return json({ ok: true });
+    }
+    case "POST /overlay/status":
+      await emitMockEvent(
+        "overlay-status",
+        (await body()) as ServerEventMap["overlay-status"]
+      );
+      return json({ ok: true });
+  }
+
+  if (method === "GET" && path.startsWith("/media/")) {
+    const clip = (await media)?.get(path);
+    if (clip) {
+      return new Response(clip, { headers: { "Content-Type": clip.type } });
+    }
+  }
+  return json({ error: `No demo route for ${method} ${path}` }, 404);
+}
+
+/**
+ * Replaces the HLP API with an in-browser stand-in: `fetch` calls to the
+ * API base and every EventSource are answered locally, a demo session is
+ * signed in and sample clips are generated. Add `mockInterval=<seconds>` to
+ * a page URL to send random redemptions on a schedule.
+ */
+export function installMockServer() {
+  const realFetch = window.fetch.bind(window);
+  window.fetch = async (input, init) => {
+    const request = new Request(input, init);
+    if (!request.url.startsWith(apiBase)) return realFetch(input, init);
+    await new Promise((resolve) => setTimeout(resolve, RESPONSE_DELAY_MS));
+    const path = new URL(request.url).pathname.slice(
+      new URL(apiBase).pathname.length
+    );
+    return respond(request.method, path, request);
+  };
+
+  window.EventSource = MockEventSource as unknown as typeof EventSource;
+  MockEventSource.onOpen = (source) => source.emit("connected", {});
+  relay?.addEventListener("message", (e: MessageEvent<RelayedEvent>) =>
+    deliver(e.data)
+  );
+  setInterval(
+    () =>
+      MockEventSource.instances.forEach((source) =>
+        source.emit("heartbeat", { sentAt: Date.now() })
+      ),
+    HEARTBEAT_MS
+  );
+
+  media = generateSampleMedia().then((clips) => {
+    clips.forEach((blob, src) => provideAsset(src, blob));
+    return clips;
+  });
+
+  if (getAuthState().status !== "signed-in") {
+    completeLogin("#token=demo").catch((error: Error) =>
+      console.error("Demo sign-in failed", error)
+    );
+  }
+
+  const interval = Number(
+    new URLSearchParams(window.location.search).get("mockInterval")
+  );
+  if (interval > 0) setMockSchedule(interval);
+}
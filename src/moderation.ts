@@ -0,0 +1,134 @@
+import { useSyncExternalStore } from "react";
+import type { SoundPayload, VideoPayload } from "./serverEvents";
+
+export interface ModerationConfig {
+  /** Master switch; when off every redemption plays as before. */
+  enabled: boolean;
+  /** Park redemptions in the pending list until a moderator decides. */
+  holdForApproval: boolean;
+  /** Minimum time between two redemptions by the same user; 0 disables. */
+  cooldownSeconds: number;
+  /** Lowercase usernames whose redemptions are always rejected. */
+  blocklist: string[];
+}
+
+export const defaultModerationConfig: ModerationConfig = {
+  enabled: false,
+  holdForApproval: false,
+  cooldownSeconds: 0,
+  blocklist: [],
+};
+
+export type Redemption =
+  | { kind: "sound"; payload: SoundPayload }
+  | { kind: "video"; payload: VideoPayload };
+
+export type ModerationDecision = "approved" | "rejected" | "refunded";
+
+export interface PendingRedemption {
+  id: string;
+  redemption: Redemption;
+  receivedAt: Date;
+}
+
+/** Why a redemption was turned away before reaching a moderator. */
+export type ScreeningResult =
+  | { allowed: true }
+  | { allowed: false; reason: "blocked" }
+  | { allowed: false; reason: "cooldown"; remainingMs: number };
+
+export const normalizeUsername = (username: string) =>
+  username.trim().toLowerCase();
+
+/** Remembers when each user's last redemption was let through. */
+export class CooldownTracker {
+  private lastAllowed = new Map<string, number>();
+
+  remaining(username: string, cooldownMs: number, now = Date.now()) {
+    const last = this.lastAllowed.get(normalizeUsername(username));
+    return last === undefined ? 0 : Math.max(0, last + cooldownMs - now);
+  }
+
+  mark(username: string, now = Date.now()) {
+    this.lastAllowed.set(normalizeUsername(username), now);
+  }
+}
+
+/**
+ * Applies the blocklist and per-user cooldown. Redemptions without a
+ * username, such as soundboard broadcasts, are always allowed.
+ */
+export function screenRedemption(
+  redemption: Redemption,
+  config: ModerationConfig,
+  cooldowns: CooldownTracker
+): ScreeningResult {
+  const { username } = redemption.payload;
+  if (!username) return { allowed: true };
+  if (config.blocklist.includes(normalizeUsername(username))) {
+    return { allowed: false, reason: "blocked" };
+  }
+  const remainingMs = cooldowns.remaining(
+    username,
+    config.cooldownSeconds * 1000
+  );
+  return remainingMs > 0
+    ? { allowed: false, reason: "cooldown", remainingMs }
+    : { allowed: true };
+}
+
+export function describeRedemption(redemption: Redemption) {
+  const { payload } = redemption;
+  const what =
+    payload.rewardName ??
+    (redemption.kind === "sound"
+      ? redemption.payload.filename
+      : payload.src.split("/").pop() ?? payload.src);
+  return payload.username ? `${what} from ${payload.username}` : what;
+}
+
+let nextPendingId = 0;
+
+/** Redemptions held for approval, oldest first. */
+export class ModerationQueue {
+  private pending: PendingRedemption[] = [];
+  private listeners = new Set<() => void>();
+
+  add(redemption: Redemption) {
+    const entry: PendingRedemption = {
+      id: (++nextPendingId).toString(),
+      redemption,
+      receivedAt: new Date(),
+    };
+    this.pending = [...this.pending, entry];
+    this.emit();
+    return entry;
+  }
+
+  /** Removes an entry so it can be decided on; null if already handled. */
+  take(id: string) {
+    const entry = this.pending.find((item) => item.id === id) ?? null;
+    if (entry) {
+      this.pending = this.pending.filter((item) => item !== entry);
+      this.emit();
+    }
+    return entry;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.pending;
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export function useModerationQueue(queue: ModerationQueue) {
+  return useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+}
@@ -0,0 +1,57 @@
+import { render } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { emit, openStream } from "../test/helpers";
+import AlertsOverlay from "./AlertsOverlay";
+
+const sound = {
+  src: "/sounds/airhorn.mp3",
+  filename: "airhorn.mp3",
+  username: "viewer1",
+  rewardName: "Airhorn",
+};
+
+describe("AlertsOverlay", () => {
+  it("stops and stays quiet while the dashboard pauses playback", async () => {
+    const play = vi.spyOn(HTMLMediaElement.prototype, "play");
+    const pause = vi.spyOn(HTMLMediaElement.prototype, "pause");
+    window.history.replaceState({}, "", "/overlay/alerts?audio=1");
+    const { container } = render(<AlertsOverlay />);
+    const source = await openStream();
+    const cards = () => container.querySelectorAll(".redemption-alert");
+
+    emit(source, "play-sound", sound);
+    await vi.waitFor(() => expect(play).toHaveBeenCalledTimes(1));
+    expect(cards()).toHaveLength(1);
+
+    emit(source, "playback-paused", { paused: true });
+    expect(pause).toHaveBeenCalled();
+    expect(cards()).toHaveLength(0);
+
+    emit(source, "play-sound", sound);
+    emit(source, "play-video", { ...sound, src: "/videos/confetti.mp4" });
+    expect(cards()).toHaveLength(0);
+    expect(play).toHaveBeenCalledTimes(1);
+
+    emit(source, "playback-paused", { paused: false });
+    emit(source, "play-sound", sound);
+    expect(cards()).toHaveLength(1);
+  });
+
+  it("waits for the dashboard's approved copy when moderated", async () => {
+    const play = vi.spyOn(HTMLMediaElement.prototype, "play");
+    window.history.replaceState({}, "", "/overlay/alerts?audio=1&moderated=1");
+    const { container } = render(<AlertsOverlay />);
+    const source = await openStream();
+    const cards = () => container.querySelectorAll(".redemption-alert");
+
+    // Held or rejected by the dashboard: no copy ever follows.
+    emit(source, "play-sound", sound);
+    emit(source, "play-video", { ...sound, src: "/videos/confetti.mp4" });
+    expect(cards()).toHaveLength(0);
+    expect(play).not.toHaveBeenCalled();
+
+    emit(source, "play-sound", { ...sound, approved: true });
+    await vi.waitFor(() => expect(play).toHaveBeenCalledTimes(1));
+    expect(cards()).toHaveLength(1);
+  });
+});
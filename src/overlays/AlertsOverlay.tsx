@@ -0,0 +1,93 @@
+import { useRef, useState } from "react";
+import { parseAlertConfig, useAlertQueue, type AlertTheme } from "../alerts";
+import { playAudioClip } from "../audio";
+import type { PlaybackHandle } from "../playbackQueue";
+import { getOverlayStream } from "../auth";
+import { useOverlayBlocklist } from "../blocklist";
+import { mediaUrl } from "../assetCache";
+import {
+  useEventStream,
+  useStreamEvent,
+} from "../eventStream";
+import RedemptionAlerts from "../RedemptionAlerts";
+import OverlayFrame from "./OverlayFrame";
+import {
+  isOverlayCopy,
+  parseModerated,
+  useOverlayConfig,
+  type OverlayTheme,
+} from "./overlayConfig";
+
+const alertThemeFor: Record<OverlayTheme, AlertTheme> = {
+  default: "classic",
+  light: "light",
+  minimal: "minimal",
+};
+
+function AlertsOverlay() {
+  const config = useOverlayConfig({ position: "top" });
+  const [alertConfig] = useState(() =>
+    parseAlertConfig(window.location.search, {
+      theme: alertThemeFor[config.theme],
+      position: config.position,
+    })
+  );
+  const { alerts, push, clear } = useAlertQueue(alertConfig);
+  const [moderated] = useState(() => parseModerated(window.location.search));
+  const clipsRef = useRef(new Set<PlaybackHandle>());
+  const pausedRef = useRef(false);
+
+  const stream = getOverlayStream(window.location.search);
+  useEventStream(stream);
+  const isBlocked = useOverlayBlocklist(stream);
+
+  useStreamEvent(stream, "play-sound", (payload) => {
+    if (
+      !config.events.includes("sound") ||
+      pausedRef.current ||
+      !isOverlayCopy(payload, moderated) ||
+      isBlocked(payload.username)
+    ) {
+      return;
+    }
+    if (config.audio) {
+      const clip = playAudioClip(mediaUrl(payload.src), config.volume);
+      clipsRef.current.add(clip);
+      clip.finished.then(() => clipsRef.current.delete(clip));
+    }
+    if (payload.username && payload.rewardName) {
+      push(payload.username, payload.rewardName, payload.imageUrl);
+    }
+  });
+
+  useStreamEvent(stream, "play-video", (payload) => {
+    // Replays re-send a redemption this overlay has already shown.
+    if (
+      !config.events.includes("video") ||
+      pausedRef.current ||
+      payload.replay ||
+      !isOverlayCopy(payload, moderated) ||
+      isBlocked(payload.username)
+    ) {
+      return;
+    }
+    if (payload.username && payload.rewardName) {
+      push(payload.username, payload.rewardName, payload.imageUrl);
+    }
+  });
+
+  useStreamEvent(stream, "playback-paused", ({ paused }) => {
+    pausedRef.current = paused;
+    if (!paused) return;
+    clipsRef.current.forEach((clip) => clip.stop());
+    clear();
+  });
+
+  return (
+    <OverlayFrame config={config}>
+      <RedemptionAlerts alerts={alerts} config={alertConfig} floating={false} />
+    </OverlayFrame>
+  );
+}
+
+export default AlertsOverlay;
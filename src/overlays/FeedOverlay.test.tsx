@@ -0,0 +1,132 @@
+import { act, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { emit, openStream } from "../test/helpers";
+import FeedOverlay from "./FeedOverlay";
+
+const redemption = (index: number) => ({
+  src: `/sounds/${index}.mp3`,
+  filename: `${index}.mp3`,
+  username: `viewer${index}`,
+  rewardName: "Airhorn",
+});
+
+async function renderFeed(search = "") {
+  window.history.replaceState({}, "", `/overlay/feed${search}`);
+  const { container } = render(<FeedOverlay />);
+  const source = await openStream();
+  const items = () => [...container.querySelectorAll(".overlay-feed-item")];
+  return { source, items };
+}
+
+describe("FeedOverlay", () => {
+  it("lists the newest redemptions first, up to maxItems", async () => {
+    const { source, items } = await renderFeed("?maxItems=3");
+
+    for (let i = 1; i <= 4; i++) emit(source, "play-sound", redemption(i));
+
+    expect(items().map((item) => item.textContent)).toEqual([
+      "🔊viewer4 Airhorn",
+      "🔊viewer3 Airhorn",
+      "🔊viewer2 Airhorn",
+    ]);
+  });
+
+  it("hides redemptions by users the dashboard blocks, and replays", async () => {
+    const { source, items } = await renderFeed();
+
+    emit(source, "moderation-blocklist", { users: "viewer1" });
+    emit(source, "play-sound", redemption(1));
+    emit(source, "play-video", {
+      src: "/videos/confetti.mp4",
+      username: "viewer2",
+      rewardName: "Confetti",
+      replay: true,
+    });
+    emit(source, "play-sound", redemption(3));
+
+    expect(items().map((item) => item.textContent)).toEqual([
+      "🔊viewer3 Airhorn",
+    ]);
+  });
+
+  it("lists only approved copies when moderated", async () => {
+    const { source, items } = await renderFeed("?moderated=1");
+
+    emit(source, "play-sound", redemption(1));
+    emit(source, "play-sound", { ...redemption(2), approved: true });
+
+    expect(items().map((item) => item.textContent)).toEqual([
+      "🔊viewer2 Airhorn",
+    ]);
+  });
+
+  it("only lists the event types in the filter", async () => {
+    const { source, items } = await renderFeed("?types=video,error");
+
+    emit(source, "play-sound", redemption(1));
+    emit(source, "play-video", {
+      src: "/videos/confetti.mp4",
+      username: "viewer2",
+      rewardName: "Confetti",
+    });
+    emit(source, "overlay-status", {
+      overlay: "video",
+      state: "playing",
+      message: "Playing Confetti",
+    });
+    emit(source, "overlay-status", {
+      overlay: "video",
+      state: "error",
+      message: "Failed to play Confetti",
+    });
+
+    expect(items().map((item) => item.className)).toEqual([
+      "overlay-feed-item feed-error",
+      "overlay-feed-item feed-video",
+    ]);
+    expect(
+      screen.getByText("[video overlay] Failed to play Confetti")
+    ).toBeDefined();
+  });
+
+  it("skips approved copies and clips without a viewer", async () => {
+    const { source, items } = await renderFeed();
+
+    emit(source, "play-video", {
+      ...redemption(1),
+      src: "/videos/confetti.mp4",
+      approved: true,
+    });
+    emit(source, "play-sound", { src: "/sounds/a.mp3", filename: "a.mp3" });
+
+    expect(items()).toHaveLength(0);
+  });
+
+  it("fades items out after fadeAfter seconds", async () => {
+    const { source, items } = await renderFeed("?fadeAfter=10");
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+
+    emit(source, "play-sound", redemption(1));
+    act(() => vi.advanceTimersByTime(10000));
+    expect(items()[0].className).toContain("leaving");
+
+    act(() => vi.advanceTimersByTime(600));
+    expect(items()).toHaveLength(0);
+  });
+
+  it("shows reward icons from the URL", async () => {
+    const { source, items } = await renderFeed(
+      `?icon=${encodeURIComponent("Airhorn|https://cdn.test/horn.gif")}` +
+        `&icon=${encodeURIComponent("Hydrate|💧")}`
+    );
+
+    emit(source, "play-sound", redemption(1));
+    emit(source, "play-sound", { ...redemption(2), rewardName: "Hydrate" });
+
+    const [hydrate, airhorn] = items();
+    expect(hydrate.querySelector(".overlay-feed-icon")?.textContent).toBe("💧");
+    expect(airhorn.querySelector("img")?.getAttribute("src")).toBe(
+      "https://cdn.test/horn.gif"
+    );
+  });
+});
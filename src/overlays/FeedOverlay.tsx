@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from "react";
+import { getOverlayStream } from "../auth";
+import { useOverlayBlocklist } from "../blocklist";
+import {
+  createEventRecord,
+  eventRewardName,
+  eventUsername,
+  type EventRecord,
+} from "../eventHistory";
+import { useEventStream, useStreamEvent } from "../eventStream";
+import OverlayFrame from "./OverlayFrame";
+import {
+  isOverlayCopy,
+  parseFeedConfig,
+  parseModerated,
+  useOverlayConfig,
+  type FeedEventType,
+} from "./overlayConfig";
+
+const FEED_FADE_MS = 600;
+
+const typeIcons: Record<FeedEventType, string> = {
+  sound: "🔊",
+  video: "🎬",
+  overlay: "🖥️",
+  error: "⚠️",
+};
+
+interface FeedItem {
+  record: EventRecord;
+  icon: string;
+  leaving: boolean;
+}
+
+const isImageUrl = (icon: string) => /^(https?:|data:|\/)/.test(icon);
+
+function FeedIcon({ icon }: { icon: string }) {
+  return isImageUrl(icon) ? (
+    <img className="overlay-feed-icon" src={icon} alt="" />
+  ) : (
+    <span className="overlay-feed-icon" aria-hidden="true">
+      {icon}
+    </span>
+  );
+}
+
+function FeedOverlay() {
+  const config = useOverlayConfig({ position: "bottom-left" });
+  const [feed] = useState(() =>
+    parseFeedConfig(window.location.search, {
+      // Older feed URLs only had the shared `events` filter.
+      types: config.events,
+    })
+  );
+  const [moderated] = useState(() => parseModerated(window.location.search));
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const timersRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  const stream = getOverlayStream(window.location.search);
+  useEventStream(stream);
+  const isBlocked = useOverlayBlocklist(stream);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  const later = (callback: () => void, ms: number) => {
+    const timer = setTimeout(() => {
+      timersRef.current.delete(timer);
+      callback();
+    }, ms);
+    timersRef.current.add(timer);
+  };
+
+  const push = (type: FeedEventType, description: string, data: object) => {
+    if (!feed.types.includes(type)) return;
+    const record = createEventRecord(type, description, data);
+    const imageUrl = "imageUrl" in data ? data.imageUrl : undefined;
+    const icon =
+      feed.icons[eventRewardName(record)] ??
+      (typeof imageUrl === "string" ? imageUrl : typeIcons[type]);
+    setItems((prev) =>
+      [{ record, icon, leaving: false }, ...prev].slice(0, feed.maxItems)
+    );
+
+    if (feed.fadeAfterMs > 0) {
+      const { id } = record;
+      later(
+        () =>
+          setItems((prev) =>
+            prev.map((item) =>
+              item.record.id === id ? { ...item, leaving: true } : item
+            )
+          ),
+        feed.fadeAfterMs
+      );
+      later(
+        () => setItems((prev) => prev.filter((item) => item.record.id !== id)),
+        feed.fadeAfterMs + FEED_FADE_MS
+      );
+    }
+  };
+
+  useStreamEvent(stream, "play-sound", (payload) => {
+    // Soundboard clips are not redemptions.
+    if (
+      payload.username &&
+      payload.rewardName &&
+      isOverlayCopy(payload, moderated) &&
+      !isBlocked(payload.username)
+    ) {
+      push("sound", payload.filename, payload);
+    }
+  });
+  useStreamEvent(stream, "play-video", (payload) => {
+    // Replays re-send a redemption the feed already lists.
+    if (
+      !payload.replay &&
+      isOverlayCopy(payload, moderated) &&
+      payload.username &&
+      payload.rewardName &&
+      !isBlocked(payload.username)
+    ) {
+      push("video", payload.src, payload);
+    }
+  });
+  useStreamEvent(stream, "overlay-status", (payload) =>
+    push(
+      payload.state === "error" ? "error" : "overlay",
+      `[${payload.overlay} overlay] ${payload.message}`,
+      payload
+    )
+  );
+
+  return (
+    <OverlayFrame config={config}>
+      <ul
+        className={`overlay-feed${
+          feed.background ? "" : " overlay-feed-transparent"
+        }`}
+      >
+        {items.map(({ record, icon, leaving }) => {
+          const username = eventUsername(record);
+          return (
+            <li
+              key={record.id}
+              className={`overlay-feed-item feed-${record.type}${
+                leaving ? " leaving" : ""
+              }`}
+            >
+              <FeedIcon icon={icon} />
+              {username ? (
+                <span>
+                  <span className="overlay-feed-user">{username}</span>{" "}
+                  {eventRewardName(record)}
+                </span>
+              ) : (
+                <span>{record.description}</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </OverlayFrame>
+  );
+}
+
+export default FeedOverlay;
@@ -0,0 +1,88 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { emit, openStream } from "../test/helpers";
+import GoalsOverlay from "./GoalsOverlay";
+
+const hydrate = {
+  goalId: "goal-1",
+  label: "Hydrate challenge",
+  rewardName: "Hydrate",
+  count: 48,
+  target: 50,
+};
+
+async function renderGoals(search = "") {
+  window.history.replaceState({}, "", `/overlay/goals${search}`);
+  const { container } = render(<GoalsOverlay />);
+  const source = await openStream();
+  const fill = () =>
+    container.querySelector<HTMLElement>(".goal-bar-fill")?.style.width;
+  return { source, fill };
+}
+
+describe("GoalsOverlay", () => {
+  it("shows a goal's progress", async () => {
+    const { source, fill } = await renderGoals();
+
+    emit(source, "goal-progress", hydrate);
+
+    expect(screen.getByText("Hydrate challenge")).toBeDefined();
+    expect(screen.getByText("48 / 50")).toBeDefined();
+    expect(fill()).toBe("96%");
+  });
+
+  it("celebrates when a goal reaches its target", async () => {
+    const { source, fill } = await renderGoals();
+    emit(source, "goal-progress", hydrate);
+    emit(source, "goal-progress", { ...hydrate, count: 49 });
+    expect(screen.queryByRole("status")).toBeNull();
+
+    emit(source, "goal-progress", { ...hydrate, count: 50 });
+
+    expect(screen.getByRole("status").textContent).toContain(
+      "Goal reached: Hydrate challenge"
+    );
+    expect(fill()).toBe("100%");
+  });
+
+  it("does not celebrate goals that were already complete", async () => {
+    const { source } = await renderGoals();
+
+    emit(source, "goal-progress", { ...hydrate, count: 50 });
+    emit(source, "goal-progress", { ...hydrate, count: 51 });
+
+    expect(screen.queryByRole("status")).toBeNull();
+  });
+
+  it("drops removed goals and keeps progress across reloads", async () => {
+    const first = await renderGoals();
+    emit(first.source, "goal-progress", hydrate);
+    emit(first.source, "goal-progress", {
+      goalId: "goal-2",
+      label: "Total",
+      count: 3,
+      target: 10,
+    });
+    emit(first.source, "goal-progress", { ...hydrate, removed: true });
+    expect(screen.queryByText("Hydrate challenge")).toBeNull();
+
+    first.source.close();
+    render(<GoalsOverlay />);
+    expect(screen.getAllByText("3 / 10")).toHaveLength(2);
+  });
+
+  it("only shows the goals named in the URL", async () => {
+    const { source } = await renderGoals("?goal=Total");
+
+    emit(source, "goal-progress", hydrate);
+    emit(source, "goal-progress", {
+      goalId: "goal-2",
+      label: "Total",
+      count: 3,
+      target: 10,
+    });
+
+    expect(screen.queryByText("Hydrate challenge")).toBeNull();
+    expect(screen.getByText("Total")).toBeDefined();
+  });
+});
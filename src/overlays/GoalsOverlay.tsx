@@ -0,0 +1,151 @@
+import { useEffect, useRef, useState } from "react";
+import { getOverlayStream } from "../auth";
+import { useEventStream, useStreamEvent } from "../eventStream";
+import type { GoalProgressPayload } from "../serverEvents";
+import OverlayFrame from "./OverlayFrame";
+import { parseGoalsOverlayConfig, useOverlayConfig } from "./overlayConfig";
+
+/** The last progress seen, so a reloaded source shows its goals right away. */
+const CACHE_KEY = "hlp.goals.overlay";
+const CONFETTI_PIECES = 24;
+
+function loadCachedGoals(): GoalProgressPayload[] {
+  try {
+    const cached = JSON.parse(localStorage.getItem(CACHE_KEY) ?? "[]");
+    return Array.isArray(cached) ? cached : [];
+  } catch {
+    return [];
+  }
+}
+
+const progressPercent = ({ count, target }: GoalProgressPayload) =>
+  Math.min(100, (count / Math.max(1, target)) * 100);
+
+function Confetti() {
+  return (
+    <div className="goal-confetti" aria-hidden="true">
+      {Array.from({ length: CONFETTI_PIECES }, (_, i) => (
+        <span
+          key={i}
+          className="goal-confetti-piece"
+          style={{
+            left: `${(i * 37) % 100}%`,
+            animationDelay: `${(i % 6) * 0.15}s`,
+            background: `hsl(${(i * 47) % 360}, 90%, 60%)`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function GoalsOverlay() {
+  const config = useOverlayConfig({ position: "bottom" });
+  const [goalsConfig] = useState(() =>
+    parseGoalsOverlayConfig(window.location.search)
+  );
+  const [goals, setGoals] = useState(loadCachedGoals);
+  const [celebrating, setCelebrating] = useState<GoalProgressPayload | null>(
+    null
+  );
+  const goalsRef = useRef(goals);
+  const celebrationTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stream = getOverlayStream(window.location.search);
+  useEventStream(stream);
+
+  const applyGoals = (next: GoalProgressPayload[]) => {
+    // Kept in a ref too: several events can arrive before the next render.
+    goalsRef.current = next;
+    setGoals(next);
+    localStorage.setItem(CACHE_KEY, JSON.stringify(next));
+  };
+
+  useEffect(
+    () => () => {
+      if (celebrationTimer.current) clearTimeout(celebrationTimer.current);
+    },
+    []
+  );
+
+  const shown = (goal: GoalProgressPayload) =>
+    goalsConfig.labels.length === 0 || goalsConfig.labels.includes(goal.label);
+
+  const celebrate = (goal: GoalProgressPayload) => {
+    if (goalsConfig.celebrationMs === 0) return;
+    if (celebrationTimer.current) clearTimeout(celebrationTimer.current);
+    setCelebrating(goal);
+    celebrationTimer.current = setTimeout(
+      () => setCelebrating(null),
+      goalsConfig.celebrationMs
+    );
+  };
+
+  useStreamEvent(stream, "goal-progress", (payload) => {
+    const previous = goalsRef.current.find(
+      (goal) => goal.goalId === payload.goalId
+    );
+    const others = goalsRef.current.filter(
+      (goal) => goal.goalId !== payload.goalId
+    );
+
+    if (payload.removed) {
+      applyGoals(others);
+      return;
+    }
+    applyGoals(
+      previous
+        ? goalsRef.current.map((goal) =>
+            goal.goalId === payload.goalId ? payload : goal
+          )
+        : [...others, payload]
+    );
+    // Only a goal crossing its target live celebrates, not a resync.
+    if (
+      shown(payload) &&
+      previous &&
+      previous.count < previous.target &&
+      payload.count >= payload.target
+    ) {
+      celebrate(payload);
+    }
+  });
+
+  return (
+    <OverlayFrame config={config}>
+      <div className="overlay-goals">
+        {goals.filter(shown).map((goal) => (
+          <div
+            key={goal.goalId}
+            className={`overlay-goal${
+              goal.count >= goal.target ? " complete" : ""
+            }`}
+          >
+            <div className="goal-header">
+              <span className="goal-label">{goal.label}</span>
+              <span key={goal.count} className="goal-count">
+                {goal.count} / {goal.target}
+              </span>
+            </div>
+            <div className="goal-bar">
+              <div
+                className="goal-bar-fill"
+                style={{ width: `${progressPercent(goal)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+        {celebrating && (
+          <div className="goal-celebration" role="status">
+            <Confetti />
+            <span className="goal-celebration-text">
+              🎉 Goal reached: {celebrating.label}!
+            </span>
+          </div>
+        )}
+      </div>
+    </OverlayFrame>
+  );
+}
+
+export default GoalsOverlay;
@@ -0,0 +1,64 @@
+import { act, render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { emit, openStream } from "../test/helpers";
+import LeaderboardOverlay from "./LeaderboardOverlay";
+
+const entries = [
+  { username: "zoe", count: 5 },
+  { username: "amy", count: 3 },
+  { username: "bob", count: 1 },
+];
+
+async function renderLeaderboard(search = "") {
+  window.history.replaceState({}, "", `/overlay/leaderboard${search}`);
+  const { container } = render(<LeaderboardOverlay />);
+  const source = await openStream();
+  const rows = () =>
+    [...container.querySelectorAll(".overlay-leaderboard-row")].map(
+      (row) => row.textContent
+    );
+  return { source, rows };
+}
+
+describe("LeaderboardOverlay", () => {
+  it("shows the top N of its scope", async () => {
+    const { source, rows } = await renderLeaderboard("?top=2&title=Top Fans");
+
+    emit(source, "leaderboard", { scope: "all-time", entries: [] });
+    emit(source, "leaderboard", { scope: "session", entries });
+
+    expect(screen.getByText("Top Fans")).toBeDefined();
+    expect(rows()).toEqual(["1zoe5", "2amy3"]);
+  });
+
+  it("ignores other scopes and payloads with malformed rows", async () => {
+    const { source, rows } = await renderLeaderboard("?scope=all-time");
+
+    emit(source, "leaderboard", { scope: "session", entries });
+    expect(rows()).toEqual([]);
+
+    emit(source, "leaderboard", {
+      scope: "all-time",
+      entries: [{ username: "zoe", count: 5 }],
+    });
+    act(() =>
+      source.emit("leaderboard", {
+        scope: "all-time",
+        entries: [{ username: "amy", count: 5 }, { count: 2 }],
+      })
+    );
+    expect(rows()).toEqual(["1zoe5"]);
+  });
+
+  it("shows the last rows it received after a reload", async () => {
+    const first = await renderLeaderboard();
+    emit(first.source, "leaderboard", { scope: "session", entries });
+    first.source.close();
+
+    const { container } = render(<LeaderboardOverlay />);
+
+    expect(
+      container.querySelectorAll(".overlay-leaderboard-row")
+    ).toHaveLength(3);
+  });
+});
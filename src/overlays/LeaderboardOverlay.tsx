@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { getOverlayStream } from "../auth";
+import { useEventStream, useStreamEvent } from "../eventStream";
+import type { LeaderboardRow } from "../leaderboard";
+import { validateServerEvent } from "../serverEvents";
+import OverlayFrame from "./OverlayFrame";
+import {
+  parseLeaderboardOverlayConfig,
+  useOverlayConfig,
+} from "./overlayConfig";
+
+/** The last `entries` seen per scope, so a reloaded source is not empty. */
+const CACHE_KEY = "hlp.leaderboard.overlay";
+
+function loadCache(): Record<string, unknown> {
+  try {
+    const cached = JSON.parse(localStorage.getItem(CACHE_KEY) ?? "{}");
+    return typeof cached === "object" && cached !== null ? cached : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Checks cached rows like a fresh event, since the cache may be stale. */
+function loadRows(scope: string): LeaderboardRow[] {
+  const result = validateServerEvent("leaderboard", {
+    scope,
+    entries: loadCache()[scope] ?? [],
+  });
+  return result.ok ? result.value.entries : [];
+}
+
+function LeaderboardOverlay() {
+  const config = useOverlayConfig({ position: "top-right" });
+  const [board] = useState(() =>
+    parseLeaderboardOverlayConfig(window.location.search)
+  );
+  const [rows, setRows] = useState(() => loadRows(board.scope));
+
+  const stream = getOverlayStream(window.location.search);
+  useEventStream(stream);
+
+  useStreamEvent(stream, "leaderboard", (payload) => {
+    if (payload.scope !== board.scope) return;
+    setRows(payload.entries);
+    localStorage.setItem(
+      CACHE_KEY,
+      JSON.stringify({ ...loadCache(), [board.scope]: payload.entries })
+    );
+  });
+
+  const top = rows.slice(0, board.top);
+
+  return (
+    <OverlayFrame config={config}>
+      {top.length > 0 && (
+        <div className="overlay-leaderboard">
+          {board.title && (
+            <div className="overlay-leaderboard-title">{board.title}</div>
+          )}
+          <ol className="overlay-leaderboard-list">
+            {top.map((row, index) => (
+              <li key={row.username} className="overlay-leaderboard-row">
+                <span className="overlay-leaderboard-rank">{index + 1}</span>
+                <span className="overlay-leaderboard-user">
+                  {row.username}
+                </span>
+                <span className="overlay-leaderboard-count">{row.count}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </OverlayFrame>
+  );
+}
+
+export default LeaderboardOverlay;
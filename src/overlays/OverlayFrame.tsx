@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+import type { OverlayConfig } from "./overlayConfig";
+
+interface OverlayFrameProps {
+  config: OverlayConfig;
+  /** Stretch the content to the whole source before scaling, e.g. video. */
+  fill?: boolean;
+  children: ReactNode;
+}
+
+/**
+ * Transparent full-page container shared by every OBS browser source.
+ * Applies the position, scale and theme from the overlay URL.
+ */
+function OverlayFrame({ config, fill = false, children }: OverlayFrameProps) {
+  return (
+    <div
+      className={`overlay-root overlay-pos-${config.position} overlay-theme-${config.theme}`}
+    >
+      <div
+        className={`overlay-frame${fill ? " overlay-fill" : ""}`}
+        style={{ transform: `scale(${config.scale})` }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export default OverlayFrame;
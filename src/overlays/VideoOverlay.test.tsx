@@ -0,0 +1,147 @@
+import { fireEvent, render, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { apiBase } from "../config";
+import { emit, mockApi, openStream, type ApiCall } from "../test/helpers";
+import VideoOverlay from "./VideoOverlay";
+
+const clip = {
+  src: "/videos/confetti.mp4",
+  username: "viewer1",
+  rewardName: "Confetti",
+};
+
+const reportedStates = (calls: ApiCall[]) =>
+  calls
+    .filter((call) => call.path === "/overlay/status")
+    .map((call) => (call.body as { state: string }).state);
+
+async function renderOverlay(search = "") {
+  window.history.replaceState({}, "", `/overlay/video${search}`);
+  const calls = mockApi();
+  const { container } = render(<VideoOverlay />);
+  const video = container.querySelector("video")!;
+  const source = await openStream();
+  return { calls, video, source };
+}
+
+describe("VideoOverlay", () => {
+  beforeEach(() => {
+    window.history.replaceState({}, "", "/");
+  });
+
+  it("loads and plays the clip from a play-video event", async () => {
+    const play = vi.spyOn(HTMLMediaElement.prototype, "play");
+    const { calls, video, source } = await renderOverlay();
+
+    emit(source, "play-video", clip);
+
+    expect(video.getAttribute("src")).toBe(`${apiBase}${clip.src}`);
+    expect(video.style.opacity).toBe("1");
+    expect(play).toHaveBeenCalledTimes(1);
+    await waitFor(() => expect(reportedStates(calls)).toEqual(["playing"]));
+  });
+
+  it("fades out and resets the element when the clip ends", async () => {
+    const { calls, video, source } = await renderOverlay();
+    emit(source, "play-video", clip);
+
+    fireEvent.ended(video);
+
+    expect(video.style.opacity).toBe("0");
+    await waitFor(() => expect(video.hasAttribute("src")).toBe(false));
+    await waitFor(() =>
+      expect(reportedStates(calls)).toEqual(["playing", "ended", "idle"])
+    );
+  });
+
+  it("reports and resets when the clip fails to load", async () => {
+    const { calls, video, source } = await renderOverlay();
+    emit(source, "play-video", clip);
+
+    fireEvent.error(video);
+
+    expect(video.style.opacity).toBe("0");
+    await waitFor(() => expect(video.hasAttribute("src")).toBe(false));
+    await waitFor(() =>
+      expect(reportedStates(calls)).toEqual(["playing", "error", "idle"])
+    );
+  });
+
+  it("treats a rejected play() as an error", async () => {
+    vi.spyOn(HTMLMediaElement.prototype, "play").mockRejectedValue(
+      new DOMException("Autoplay blocked", "NotAllowedError")
+    );
+    const { calls, video, source } = await renderOverlay();
+
+    emit(source, "play-video", clip);
+
+    await waitFor(() => expect(video.hasAttribute("src")).toBe(false));
+    expect(reportedStates(calls)).toContain("error");
+  });
+
+  it("plays the next queued clip after the first one ends", async () => {
+    const { video, source } = await renderOverlay();
+    emit(source, "play-video", clip);
+    emit(source, "play-video", { ...clip, src: "/videos/hydrate.mp4" });
+    expect(video.getAttribute("src")).toBe(`${apiBase}${clip.src}`);
+
+    fireEvent.ended(video);
+
+    await waitFor(() =>
+      expect(video.getAttribute("src")).toBe(`${apiBase}/videos/hydrate.mp4`)
+    );
+  });
+
+  it("only plays approved copies when moderated", async () => {
+    const { video, source } = await renderOverlay("?moderated=1");
+
+    emit(source, "play-video", clip);
+    expect(video.hasAttribute("src")).toBe(false);
+
+    emit(source, "play-video", { ...clip, approved: true });
+    expect(video.getAttribute("src")).toBe(`${apiBase}${clip.src}`);
+  });
+
+  it("plays dashboard replays even when moderated", async () => {
+    const { video, source } = await renderOverlay("?moderated=1");
+
+    emit(source, "play-video", { ...clip, replay: true });
+
+    expect(video.getAttribute("src")).toBe(`${apiBase}${clip.src}`);
+  });
+
+  it("drops clips by users the dashboard blocks", async () => {
+    const { calls, video, source } = await renderOverlay();
+
+    emit(source, "moderation-blocklist", { users: "viewer1" });
+    emit(source, "play-video", clip);
+
+    expect(video.hasAttribute("src")).toBe(false);
+    await waitFor(() => expect(reportedStates(calls)).toEqual(["dropped"]));
+  });
+
+  it("stops and drops clips while the dashboard has playback paused", async () => {
+    const { calls, video, source } = await renderOverlay();
+    emit(source, "play-video", clip);
+
+    emit(source, "playback-paused", { paused: true });
+    expect(video.hasAttribute("src")).toBe(false);
+    expect(video.style.opacity).toBe("0");
+
+    emit(source, "play-video", clip);
+    expect(video.hasAttribute("src")).toBe(false);
+
+    emit(source, "playback-paused", { paused: false });
+    emit(source, "play-video", clip);
+    expect(video.getAttribute("src")).toBe(`${apiBase}${clip.src}`);
+    await waitFor(() =>
+      expect(reportedStates(calls)).toEqual([
+        "playing",
+        "paused",
+        "dropped",
+        "idle",
+        "playing",
+      ])
+    );
+  });
+});
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import { reportOverlayStatus } from "../api";
+import { getOverlayStream } from "../auth";
+import { useOverlayBlocklist } from "../blocklist";
+import { mediaUrl } from "../assetCache";
+import {
+  useEventStream,
+  useStreamEvent,
+  type VideoPayload,
+} from "../eventStream";
+import { parseAlertConfig, useAlertQueue } from "../alerts";
+import {
+  attachLoudnessLimiter,
+  detachLoudnessLimiter,
+} from "../loudness";
+import { PlaybackQueue, type PlaybackHandle } from "../playbackQueue";
+import RedemptionAlerts from "../RedemptionAlerts";
+import OverlayFrame from "./OverlayFrame";
+import {
+  isOverlayCopy,
+  parseVideoQueueConfig,
+  useOverlayConfig,
+} from "./overlayConfig";
+
+const FADE_MS = 400;
+
+type ClipEnd = "ended" | "error" | "cutoff" | "stopped";
+
+const clampVolume = (volume: number) => Math.min(1, Math.max(0, volume));
+
+const clipName = (payload: VideoPayload) =>
+  payload.rewardName ?? payload.src.split("/").pop() ?? payload.src;
+
+function resetVideo(el: HTMLVideoElement) {
+  try {
+    el.pause();
+  } catch {
+    /* noop */
+  }
+  el.removeAttribute("src");
+  el.load();
+}
+
+function VideoOverlay() {
+  const config = useOverlayConfig({ events: ["video"] });
+  const [queueConfig] = useState(() =>
+    parseVideoQueueConfig(window.location.search)
+  );
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const endClipRef = useRef<((reason: ClipEnd) => void) | null>(null);
+  const clipGenerationRef = useRef(0);
+  const pausedRef = useRef(false);
+  const muted = !config.audio;
+  const [visible, setVisible] = useState<boolean>(false);
+  const [alertConfig] = useState(() =>
+    parseAlertConfig(window.location.search)
+  );
+  const { alerts, push: pushAlert } = useAlertQueue(alertConfig);
+
+  const stream = getOverlayStream(window.location.search);
+  useEventStream(stream);
+  const isBlocked = useOverlayBlocklist(stream);
+
+  const applyVolume = (el: HTMLVideoElement, volume: number) => {
+    if (muted || !config.limiter) {
+      el.volume = volume;
+      return;
+    }
+    try {
+      const limiter = attachLoudnessLimiter(el);
+      limiter.reset();
+      limiter.setVolume(volume);
+      el.volume = 1;
+    } catch (error) {
+      console.warn("Loudness limiter unavailable, using element volume", error);
+      el.volume = volume;
+    }
+  };
+
+  const report = (state: string, message: string) => {
+    reportOverlayStatus({
+      overlay: "video",
+      state,
+      message,
+      queueDepth: queue.getSnapshot().pending.length,
+    }).catch((error) => console.warn("Failed to report overlay status", error));
+  };
+
+  const playClip = (payload: VideoPayload): PlaybackHandle => {
+    const { src, username, rewardName } = payload;
+    const el = videoRef.current;
+    let resolve: () => void = () => undefined;
+    const finished = new Promise<void>((r) => {
+      resolve = r;
+    });
+    if (!el) {
+      resolve();
+      return { stop: () => undefined, finished };
+    }
+
+    const generation = ++clipGenerationRef.current;
+    const name = clipName(payload);
+    const { maxDurationMs, gapMs } = queueConfig;
+    let cutoff: ReturnType<typeof setTimeout> | null = null;
+    let settled = false;
+
+    const startCutoff = () => {
+      if (maxDurationMs > 0) {
+        cutoff = setTimeout(() => end("cutoff"), maxDurationMs);
+      }
+    };
+
+    const end = (reason: ClipEnd) => {
+      if (settled) return;
+      settled = true;
+      endClipRef.current = null;
+      if (cutoff) clearTimeout(cutoff);
+      el.removeEventListener("playing", startCutoff);
+
+      if (reason === "stopped") {
+        // Skipped or replaced: the next clip takes over the element right away.
+        resetVideo(el);
+        setVisible(false);
+        resolve();
+        return;
+      }
+
+      if (reason === "error") report("error", `Failed to play ${name}`);
+      if (reason === "cutoff") {
+        el.pause();
+        report("cutoff", `Cut ${name} off after ${maxDurationMs / 1000}s`);
+      }
+      if (reason === "ended") report("ended", `Finished ${name}`);
+
+      const drained = queue.getSnapshot().pending.length === 0;
+      const fade = drained || gapMs > 0;
+      if (fade) setVisible(false);
+      setTimeout(
+        () => {
+          if (clipGenerationRef.current === generation) {
+            resetVideo(el);
+            if (queue.getSnapshot().pending.length === 0) {
+              report("idle", "Queue drained, overlay hidden");
+            }
+          }
+          resolve();
+        },
+        Math.max(fade ? FADE_MS : 0, gapMs)
+      );
+    };
+
+    // Reset any existing playback and source to avoid freezing last frame
+    resetVideo(el);
+    el.src = mediaUrl(src);
+    el.muted = muted;
+    applyVolume(el, clampVolume(payload.volume ?? config.volume));
+    endClipRef.current = end;
+    el.addEventListener("playing", startCutoff, { once: true });
+    setVisible(true);
+    el.play().catch(() => end("error"));
+    report("playing", `Playing ${name}`);
+
+    if (username && rewardName && !payload.replay) {
+      pushAlert(username, rewardName, payload.imageUrl);
+    }
+
+    return { stop: () => end("stopped"), finished };
+  };
+
+  const [queue] = useState(
+    () =>
+      new PlaybackQueue<VideoPayload>({
+        policy: queueConfig.policy === "replace" ? "interrupt" : queueConfig.policy,
+        maxVoices: 1,
+        play: (payload) => playClip(payload),
+      })
+  );
+
+  useEffect(() => {
+    const el = videoRef.current;
+    return () => {
+      queue.stopAll();
+      if (el) detachLoudnessLimiter(el);
+    };
+  }, [queue]);
+
+  useStreamEvent(stream, "play-video", (payload) => {
+    // A moderated overlay waits for the dashboard's approved copy; any other
+    // overlay plays the original and must skip that copy. Replays from the
+    // dashboard play everywhere.
+    if (!payload.replay && !isOverlayCopy(payload, queueConfig.moderated)) {
+      return;
+    }
+    const name = clipName(payload);
+    if (isBlocked(payload.username)) {
+      report("dropped", `Dropped ${name}, blocked user`);
+      return;
+    }
+    if (pausedRef.current) {
+      report("dropped", `Dropped ${name}, playback paused`);
+      return;
+    }
+    const busy = queue.getSnapshot().playing.length > 0;
+    const result = queue.enqueue(payload);
+    if (result === "dropped") {
+      report("dropped", `Dropped ${name}, overlay busy`);
+    } else if (result === "queued") {
+      report("queued", `Queued ${name}`);
+    } else if (busy) {
+      report("replaced", `Replaced current clip with ${name}`);
+    }
+  });
+
+  useStreamEvent(stream, "playback-paused", ({ paused }) => {
+    if (pausedRef.current === paused) return;
+    pausedRef.current = paused;
+    if (paused) {
+      queue.stopAll();
+      report("paused", "Playback paused from the dashboard");
+    } else {
+      report("idle", "Playback resumed");
+    }
+  });
+
+  return (
+    <OverlayFrame config={config} fill>
+      <video
+        ref={videoRef}
+        style={{
+          width: "100%",
+          height: "100%",
+          objectFit: "contain",
+          opacity: visible ? 1 : 0,
+          transition: `opacity ${FADE_MS}ms ease-in-out`,
+        }}
+        playsInline
+        muted={muted}
+        // Web Audio can only read cross-origin media fetched with CORS.
+        crossOrigin={!muted && config.limiter ? "anonymous" : undefined}
+        onEnded={() => endClipRef.current?.("ended")}
+        onError={() => endClipRef.current?.("error")}
+      />
+
+      <RedemptionAlerts alerts={alerts} config={alertConfig} />
+    </OverlayFrame>
+  );
+}
+
+export default VideoOverlay;
@@ -0,0 +1,15 @@
+import type { ComponentType } from "react";
+import AlertsOverlay from "./AlertsOverlay";
+import FeedOverlay from "./FeedOverlay";
+import GoalsOverlay from "./GoalsOverlay";
+import LeaderboardOverlay from "./LeaderboardOverlay";
+import VideoOverlay from "./VideoOverlay";
+
+/** Overlay routes served under `/overlay/<name>`. */
+export const overlayRoutes: Record<string, ComponentType> = {
+  alerts: AlertsOverlay,
+  video: VideoOverlay,
+  feed: FeedOverlay,
+  goals: GoalsOverlay,
+  leaderboard: LeaderboardOverlay,
+};
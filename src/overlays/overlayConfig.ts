@@ -0,0 +1,300 @@
+import { useState } from "react";
+import type { LeaderboardScope } from "../leaderboard";
+
+export type OverlayPosition =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+export type OverlayTheme = "default" | "light" | "minimal";
+
+/** Event history types an overlay can react to. */
+export type OverlayEventType = "sound" | "video";
+
+export interface OverlayConfig {
+  position: OverlayPosition;
+  scale: number;
+  events: OverlayEventType[];
+  theme: OverlayTheme;
+  audio: boolean;
+  /** Output volume between 0 and 1 when audio is enabled. */
+  volume: number;
+  /** Normalize loudness across clips through Web Audio. */
+  limiter: boolean;
+}
+
+export const overlayPositions: OverlayPosition[] = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+];
+
+export const overlayThemes: OverlayTheme[] = ["default", "light", "minimal"];
+
+export const overlayEventTypes: OverlayEventType[] = ["sound", "video"];
+
+export const defaultOverlayConfig: OverlayConfig = {
+  position: "center",
+  scale: 1,
+  events: overlayEventTypes,
+  theme: "default",
+  audio: false,
+  volume: 1,
+  limiter: true,
+};
+
+const oneOf = <T extends string>(options: T[], value: string | null) =>
+  options.find((option) => option === value);
+
+const parseBoolean = (value: string | null) =>
+  value === null ? undefined : ["1", "true", "yes", "on"].includes(value);
+
+/**
+ * Reads an overlay's options from its OBS browser source URL, e.g.
+ * `/overlay/alerts?position=top-right&scale=0.8&events=sound&audio=1&volume=0.5`.
+ * Unknown or malformed values fall back to the overlay's defaults.
+ */
+export function parseOverlayConfig(
+  search: string,
+  defaults: Partial<OverlayConfig> = {}
+): OverlayConfig {
+  const params = new URLSearchParams(search);
+  const base = { ...defaultOverlayConfig, ...defaults };
+
+  const scale = Number(params.get("scale"));
+  const volume = Number(params.get("volume") ?? NaN);
+  const events = params
+    .get("events")
+    ?.split(",")
+    .map((type) => oneOf(overlayEventTypes, type.trim()))
+    .filter((type): type is OverlayEventType => type !== undefined);
+
+  return {
+    position: oneOf(overlayPositions, params.get("position")) ?? base.position,
+    scale: Number.isFinite(scale) && scale > 0 ? Math.min(scale, 4) : base.scale,
+    events: events && events.length > 0 ? events : base.events,
+    theme: oneOf(overlayThemes, params.get("theme")) ?? base.theme,
+    audio: parseBoolean(params.get("audio")) ?? base.audio,
+    volume: Number.isFinite(volume)
+      ? Math.min(1, Math.max(0, volume))
+      : base.volume,
+    limiter: parseBoolean(params.get("limiter")) ?? base.limiter,
+  };
+}
+
+/** Builds the query string that `parseOverlayConfig` reads back. */
+export function overlayQuery(config: OverlayConfig) {
+  return new URLSearchParams({
+    position: config.position,
+    scale: config.scale.toString(),
+    events: config.events.join(","),
+    theme: config.theme,
+    audio: config.audio ? "1" : "0",
+    volume: config.volume.toString(),
+    limiter: config.limiter ? "1" : "0",
+  }).toString();
+}
+
+export type VideoQueuePolicy = "queue" | "replace" | "drop";
+
+export interface VideoQueueConfig {
+  policy: VideoQueuePolicy;
+  /** Hard cutoff per clip; 0 lets clips play to the end. */
+  maxDurationMs: number;
+  /** Pause between two clips. */
+  gapMs: number;
+  /** Only play clips the dashboard approved, see `moderation.ts`. */
+  moderated: boolean;
+}
+
+const seconds = (value: string | null) => {
+  const parsed = Number(value ?? NaN);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed * 1000 : 0;
+};
+
+/**
+ * Reads the video overlay's queue options, e.g.
+ * `/overlay/video?queue=replace&maxDuration=30&gap=2&moderated=1` (durations
+ * in seconds).
+ */
+export function parseVideoQueueConfig(search: string): VideoQueueConfig {
+  const params = new URLSearchParams(search);
+  return {
+    policy:
+      oneOf<VideoQueuePolicy>(["queue", "replace", "drop"], params.get("queue")) ??
+      "queue",
+    maxDurationMs: seconds(params.get("maxDuration")),
+    gapMs: seconds(params.get("gap")),
+    moderated: parseModerated(search),
+  };
+}
+
+/**
+ * Whether an overlay acts only on the copies the dashboard sends once a
+ * redemption passed moderation, e.g. `/overlay/alerts?moderated=1`.
+ */
+export const parseModerated = (search: string) =>
+  parseBoolean(new URLSearchParams(search).get("moderated")) ?? false;
+
+/**
+ * Whether an overlay handles this copy of a redemption: moderated overlays
+ * take the dashboard's approved copies, all others the originals.
+ */
+export const isOverlayCopy = (
+  payload: { approved?: boolean },
+  moderated: boolean
+) => Boolean(payload.approved) === moderated;
+
+/** Event history types the feed overlay can list. */
+export type FeedEventType = "sound" | "video" | "overlay" | "error";
+
+export interface FeedConfig {
+  maxItems: number;
+  /** Items fade out this long after they arrive; 0 keeps them. */
+  fadeAfterMs: number;
+  types: FeedEventType[];
+  /** Icon per reward name: an image URL or a short text such as an emoji. */
+  icons: Record<string, string>;
+  /** Draw a card behind each item; off leaves only the text. */
+  background: boolean;
+}
+
+export const feedEventTypes: FeedEventType[] = [
+  "sound",
+  "video",
+  "overlay",
+  "error",
+];
+
+export const defaultFeedConfig: FeedConfig = {
+  maxItems: 5,
+  fadeAfterMs: 0,
+  types: ["sound", "video"],
+  icons: {},
+  background: true,
+};
+
+/**
+ * Reads the feed overlay's options, e.g.
+ * `/overlay/feed?maxItems=8&fadeAfter=20&types=sound,video&background=0`
+ * (`fadeAfter` in seconds). Reward icons are passed as repeated
+ * `icon=<reward name>|<url or emoji>` params.
+ */
+export function parseFeedConfig(
+  search: string,
+  defaults: Partial<FeedConfig> = {}
+): FeedConfig {
+  const params = new URLSearchParams(search);
+  const base = { ...defaultFeedConfig, ...defaults };
+  const maxItems = Number(params.get("maxItems") ?? NaN);
+  const types = params
+    .get("types")
+    ?.split(",")
+    .map((type) => oneOf(feedEventTypes, type.trim()))
+    .filter((type): type is FeedEventType => type !== undefined);
+
+  const icons = { ...base.icons };
+  params.getAll("icon").forEach((entry) => {
+    const separator = entry.lastIndexOf("|");
+    if (separator > 0) {
+      icons[entry.slice(0, separator)] = entry.slice(separator + 1);
+    }
+  });
+
+  return {
+    maxItems:
+      Number.isInteger(maxItems) && maxItems > 0
+        ? Math.min(maxItems, 50)
+        : base.maxItems,
+    fadeAfterMs: params.has("fadeAfter")
+      ? seconds(params.get("fadeAfter"))
+      : base.fadeAfterMs,
+    types: types && types.length > 0 ? types : base.types,
+    icons,
+    background: parseBoolean(params.get("background")) ?? base.background,
+  };
+}
+
+/** Builds the query string that `parseFeedConfig` reads back. */
+export function feedQuery(config: FeedConfig) {
+  const params = new URLSearchParams({
+    maxItems: config.maxItems.toString(),
+    fadeAfter: (config.fadeAfterMs / 1000).toString(),
+    types: config.types.join(","),
+    background: config.background ? "1" : "0",
+  });
+  Object.entries(config.icons).forEach(([reward, icon]) =>
+    params.append("icon", `${reward}|${icon}`)
+  );
+  return params.toString();
+}
+
+export interface GoalsOverlayConfig {
+  /** Labels of the goals to show; empty shows every goal. */
+  labels: string[];
+  /** How long the completion celebration stays up; 0 turns it off. */
+  celebrationMs: number;
+}
+
+/**
+ * Reads the goals overlay's options, e.g.
+ * `/overlay/goals?goal=Hydrate challenge&celebration=8` (seconds). Repeat
+ * `goal` to show several goals.
+ */
+export function parseGoalsOverlayConfig(search: string): GoalsOverlayConfig {
+  const params = new URLSearchParams(search);
+  return {
+    labels: params
+      .getAll("goal")
+      .map((label) => label.trim())
+      .filter(Boolean),
+    celebrationMs: params.has("celebration")
+      ? seconds(params.get("celebration"))
+      : 6000,
+  };
+}
+
+export interface LeaderboardOverlayConfig {
+  scope: LeaderboardScope;
+  /** Number of viewers shown, at most the 10 the dashboard sends. */
+  top: number;
+  title: string;
+}
+
+/**
+ * Reads the leaderboard overlay's options, e.g.
+ * `/overlay/leaderboard?scope=all-time&top=3&title=Top Fans`.
+ */
+export function parseLeaderboardOverlayConfig(
+  search: string
+): LeaderboardOverlayConfig {
+  const params = new URLSearchParams(search);
+  const top = Number(params.get("top") ?? NaN);
+  return {
+    scope:
+      oneOf<LeaderboardScope>(["session", "all-time"], params.get("scope")) ??
+      "session",
+    top: Number.isInteger(top) && top > 0 ? Math.min(top, 10) : 5,
+    title: params.get("title") ?? "Top Redeemers",
+  };
+}
+
+/** Parses the current page's overlay options once per mount. */
+export function useOverlayConfig(defaults: Partial<OverlayConfig> = {}) {
+  const [config] = useState(() =>
+    parseOverlayConfig(window.location.search, defaults)
+  );
+  return config;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  PlaybackQueue,
+  type OverlapPolicy,
+  type PlaybackHandle,
+} from "./playbackQueue";
+
+interface Clip {
+  name: string;
+  speech?: boolean;
+}
+
+/** A queue whose clips play until the test ends or stops them. */
+function setup(policy: OverlapPolicy, maxVoices = 1) {
+  const started: string[] = [];
+  const stopped: string[] = [];
+  const endings = new Map<string, () => void>();
+  const queue = new PlaybackQueue<Clip>({
+    policy,
+    maxVoices,
+    play: ({ name }): PlaybackHandle => {
+      started.push(name);
+      let resolve: () => void = () => undefined;
+      const finished = new Promise<void>((r) => {
+        resolve = r;
+      });
+      endings.set(name, resolve);
+      return {
+        stop: () => {
+          stopped.push(name);
+          resolve();
+        },
+        finished,
+      };
+    },
+    isExclusive: (clip) => clip.speech === true,
+  });
+  /** Ends a clip on its own and lets the queue advance. */
+  const end = async (name: string) => {
+    endings.get(name)?.();
+    await Promise.resolve();
+  };
+  const playing = () =>
+    queue.getSnapshot().playing.map((entry) => entry.item.name);
+  const pending = () =>
+    queue.getSnapshot().pending.map((entry) => entry.item.name);
+  return { queue, started, stopped, end, playing, pending };
+}
+
+describe("PlaybackQueue", () => {
+  it("plays one at a time in arrival order with the queue policy", async () => {
+    const { queue, end, playing, pending } = setup("queue");
+
+    expect(queue.enqueue({ name: "a" })).toBe("playing");
+    expect(queue.enqueue({ name: "b" })).toBe("queued");
+    expect(queue.enqueue({ name: "c" })).toBe("queued");
+    expect(playing()).toEqual(["a"]);
+    expect(pending()).toEqual(["b", "c"]);
+
+    await end("a");
+    expect(playing()).toEqual(["b"]);
+    expect(pending()).toEqual(["c"]);
+  });
+
+  it("plays up to maxVoices at once with the overlap policy", async () => {
+    const { queue, end, playing, pending } = setup("overlap", 2);
+
+    expect(queue.enqueue({ name: "a" })).toBe("playing");
+    expect(queue.enqueue({ name: "b" })).toBe("playing");
+    expect(queue.enqueue({ name: "c" })).toBe("queued");
+    expect(playing()).toEqual(["a", "b"]);
+
+    await end("b");
+    expect(playing()).toEqual(["a", "c"]);
+    expect(pending()).toEqual([]);
+  });
+
+  it("stops what is playing and drops the backlog with interrupt", () => {
+    const { queue, stopped, playing, pending } = setup("interrupt");
+
+    queue.enqueue({ name: "a" });
+    expect(queue.enqueue({ name: "b" })).toBe("playing");
+
+    expect(stopped).toEqual(["a"]);
+    expect(playing()).toEqual(["b"]);
+    expect(pending()).toEqual([]);
+  });
+
+  it("ignores new clips while busy with the drop policy", async () => {
+    const { queue, started, end, playing } = setup("drop");
+
+    queue.enqueue({ name: "a" });
+    expect(queue.enqueue({ name: "b" })).toBe("dropped");
+    expect(started).toEqual(["a"]);
+
+    await end("a");
+    expect(queue.enqueue({ name: "c" })).toBe("playing");
+    expect(playing()).toEqual(["c"]);
+  });
+
+  it("holds an exclusive head of line until every voice is done", async () => {
+    const { queue, end, playing, pending } = setup("overlap", 3);
+
+    queue.enqueue({ name: "a" });
+    queue.enqueue({ name: "b" });
+    expect(queue.enqueue({ name: "speech", speech: true })).toBe("queued");
+    // Free voices stay unused: nothing may jump ahead of the speech.
+    expect(queue.enqueue({ name: "c" })).toBe("queued");
+    expect(pending()).toEqual(["speech", "c"]);
+
+    await end("a");
+    expect(playing()).toEqual(["b"]);
+    await end("b");
+    expect(playing()).toEqual(["speech"]);
+    expect(pending()).toEqual(["c"]);
+
+    await end("speech");
+    expect(playing()).toEqual(["c"]);
+  });
+
+  it("never drops or interrupts for exclusive clips", async () => {
+    const dropping = setup("drop");
+    dropping.queue.enqueue({ name: "a" });
+    expect(dropping.queue.enqueue({ name: "speech", speech: true })).toBe(
+      "queued"
+    );
+
+    const interrupting = setup("interrupt");
+    interrupting.queue.enqueue({ name: "a" });
+    interrupting.queue.enqueue({ name: "speech", speech: true });
+    expect(interrupting.stopped).toEqual([]);
+    await interrupting.end("a");
+    expect(interrupting.playing()).toEqual(["speech"]);
+  });
+});
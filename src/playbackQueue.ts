@@ -0,0 +1,183 @@
+import { useSyncExternalStore } from "react";
+
+/**
+ * How a new item is handled when something is already playing:
+ * - `queue`: play one at a time, in arrival order
+ * - `overlap`: play up to `maxVoices` at once, queue the rest
+ * - `interrupt`: stop whatever is playing and start the new item
+ * - `drop`: ignore the new item while anything is playing
+ */
+export type OverlapPolicy = "queue" | "overlap" | "interrupt" | "drop";
+
+export const overlapPolicies: { value: OverlapPolicy; label: string }[] = [
+  { value: "queue", label: "Queue sequentially" },
+  { value: "overlap", label: "Allow simultaneous" },
+  { value: "interrupt", label: "Interrupt current" },
+  { value: "drop", label: "Drop if busy" },
+];
+
+/** A running playback started by the queue's `play` callback. */
+export interface PlaybackHandle {
+  stop: () => void;
+  /** Resolves when playback ends, fails or is stopped. */
+  finished: Promise<void>;
+}
+
+export interface QueueEntry<T> {
+  id: string;
+  item: T;
+  enqueuedAt: number;
+}
+
+export interface PlaybackQueueSnapshot<T> {
+  playing: QueueEntry<T>[];
+  pending: QueueEntry<T>[];
+}
+
+export type EnqueueResult = "playing" | "queued" | "dropped";
+
+export interface PlaybackQueueOptions<T> {
+  policy: OverlapPolicy;
+  maxVoices: number;
+  play: (item: T) => PlaybackHandle;
+  onStart?: (entry: QueueEntry<T>) => void;
+  /**
+   * Items that must play alone, such as speech. They ignore the policy:
+   * they are never dropped and never interrupt, but wait until nothing is
+   * playing, and nothing else starts while they play.
+   */
+  isExclusive?: (item: T) => boolean;
+}
+
+interface Voice<T> {
+  entry: QueueEntry<T>;
+  handle: PlaybackHandle;
+}
+
+let nextEntryId = 0;
+
+export class PlaybackQueue<T> {
+  private policy: OverlapPolicy;
+  private maxVoices: number;
+  private readonly play: (item: T) => PlaybackHandle;
+  private readonly onStart?: (entry: QueueEntry<T>) => void;
+  private readonly isExclusive: (item: T) => boolean;
+  private voices: Voice<T>[] = [];
+  private pending: QueueEntry<T>[] = [];
+  private listeners = new Set<() => void>();
+  private snapshot: PlaybackQueueSnapshot<T> = { playing: [], pending: [] };
+
+  constructor(options: PlaybackQueueOptions<T>) {
+    this.policy = options.policy;
+    this.maxVoices = Math.max(1, options.maxVoices);
+    this.play = options.play;
+    this.onStart = options.onStart;
+    this.isExclusive = options.isExclusive ?? (() => false);
+  }
+
+  enqueue(item: T): EnqueueResult {
+    const exclusive = this.isExclusive(item);
+    if (!exclusive && this.policy === "drop" && this.voices.length > 0) {
+      return "dropped";
+    }
+    if (!exclusive && this.policy === "interrupt") {
+      this.pending = [];
+      this.voices.splice(0).forEach((voice) => voice.handle.stop());
+    }
+
+    const entry: QueueEntry<T> = {
+      id: (++nextEntryId).toString(),
+      item,
+      enqueuedAt: Date.now(),
+    };
+    this.pending.push(entry);
+    this.pump();
+    this.emit();
+    return this.voices.some((voice) => voice.entry === entry)
+      ? "playing"
+      : "queued";
+  }
+
+  /** Stops a playing entry (the oldest one by default) and advances the queue. */
+  skip(id?: string) {
+    const voice = id
+      ? this.voices.find((v) => v.entry.id === id)
+      : this.voices[0];
+    if (!voice) return;
+    this.voices = this.voices.filter((v) => v !== voice);
+    voice.handle.stop();
+    this.pump();
+    this.emit();
+  }
+
+  /** Removes a waiting entry without touching what is playing. */
+  remove(id: string) {
+    this.pending = this.pending.filter((entry) => entry.id !== id);
+    this.emit();
+  }
+
+  clear() {
+    this.pending = [];
+    this.emit();
+  }
+
+  stopAll() {
+    this.pending = [];
+    this.voices.splice(0).forEach((voice) => voice.handle.stop());
+    this.emit();
+  }
+
+  setPolicy(policy: OverlapPolicy, maxVoices = this.maxVoices) {
+    this.policy = policy;
+    this.maxVoices = Math.max(1, maxVoices);
+    this.pump();
+    this.emit();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  private capacity() {
+    return this.policy === "overlap" ? this.maxVoices : 1;
+  }
+
+  private pump() {
+    while (this.voices.length < this.capacity() && this.pending.length > 0) {
+      const exclusiveVoice = this.voices.some((v) =>
+        this.isExclusive(v.entry.item)
+      );
+      const nextExclusive = this.isExclusive(this.pending[0].item);
+      if (exclusiveVoice || (nextExclusive && this.voices.length > 0)) break;
+      const entry = this.pending.shift()!;
+      const voice: Voice<T> = { entry, handle: this.play(entry.item) };
+      this.voices.push(voice);
+      this.onStart?.(entry);
+      voice.handle.finished.then(() => this.finish(voice));
+    }
+  }
+
+  private finish(voice: Voice<T>) {
+    if (!this.voices.includes(voice)) return;
+    this.voices = this.voices.filter((v) => v !== voice);
+    this.pump();
+    this.emit();
+  }
+
+  private emit() {
+    this.snapshot = {
+      playing: this.voices.map((voice) => voice.entry),
+      pending: [...this.pending],
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export function usePlaybackQueue<T>(queue: PlaybackQueue<T>) {
+  return useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+}
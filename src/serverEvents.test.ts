@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseServerEvent } from "./serverEvents";
+
+describe("parseServerEvent", () => {
+  it("treats optional fields sent as null as absent", () => {
+    const result = parseServerEvent(
+      "play-sound",
+      JSON.stringify({ src: "/s/a.mp3", filename: "a.mp3", rewardName: null })
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: { src: "/s/a.mp3", filename: "a.mp3" },
+    });
+  });
+
+  it("still rejects required fields sent as null", () => {
+    const result = parseServerEvent(
+      "play-sound",
+      JSON.stringify({ src: null, filename: "a.mp3" })
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.issues).toEqual(['missing "src"']);
+  });
+
+  it("checks arrays of objects field by field", () => {
+    const result = parseServerEvent(
+      "leaderboard",
+      JSON.stringify({
+        scope: "session",
+        entries: [{ username: "zoe", count: 2 }, { username: "amy" }, "bob"],
+      })
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.issues).toEqual([
+        'missing "entries[1].count"',
+        '"entries[2]" should be an object, got string',
+      ]);
+    }
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Single source of truth for the events the HLP API broadcasts. Payload
+ * types are inferred from the schema, so adding a field here updates both
+ * the runtime check and the TypeScript type.
+ */
+type FieldSpec =
+  | { type: "string" | "number" | "boolean"; optional?: boolean }
+  | { type: "array"; items: FieldSpec; optional?: boolean }
+  | { type: "object"; fields: EventSchema; optional?: boolean };
+
+type EventSchema = { [key: string]: FieldSpec };
+
+export const serverEventSchema = {
+  connected: {},
+  /** Sent periodically so clients can tell a quiet stream from a dead one. */
+  heartbeat: {
+    /** Server clock in epoch milliseconds. */
+    sentAt: { type: "number" },
+  },
+  "play-sound": {
+    src: { type: "string" },
+    filename: { type: "string" },
+    username: { type: "string", optional: true },
+    rewardName: { type: "string", optional: true },
+    /** Image or GIF shown in the redemption alert. */
+    imageUrl: { type: "string", optional: true },
+    /** Twitch redemption id, needed to report moderation decisions. */
+    redemptionId: { type: "string", optional: true },
+    /** Text the viewer entered with the redemption, read out by TTS. */
+    message: { type: "string", optional: true },
+    /** Set on the copy the dashboard sends once a sound passed moderation. */
+    approved: { type: "boolean", optional: true },
+  },
+  "play-video": {
+    src: { type: "string" },
+    username: { type: "string", optional: true },
+    rewardName: { type: "string", optional: true },
+    imageUrl: { type: "string", optional: true },
+    /** Per-reward volume override between 0 and 1. */
+    volume: { type: "number", optional: true },
+    redemptionId: { type: "string", optional: true },
+    /** Set on the copy the dashboard sends once a video passed moderation. */
+    approved: { type: "boolean", optional: true },
+    /** Set when the dashboard replays a video from its history. */
+    replay: { type: "boolean", optional: true },
+  },
+  /** Relayed by the API from overlays reporting what they are doing. */
+  "overlay-status": {
+    overlay: { type: "string" },
+    state: { type: "string" },
+    message: { type: "string" },
+    queueDepth: { type: "number", optional: true },
+  },
+  /** Sent by the dashboard whenever a goal changes, for the goals overlay. */
+  "goal-progress": {
+    goalId: { type: "string" },
+    label: { type: "string" },
+    count: { type: "number" },
+    target: { type: "number" },
+    rewardName: { type: "string", optional: true },
+    /** The goal was deleted and should leave the overlay. */
+    removed: { type: "boolean", optional: true },
+  },
+  /** Sent by the dashboard whenever a leaderboard changes. */
+  leaderboard: {
+    /** `session` or `all-time`. */
+    scope: { type: "string" },
+    /** Highest rank first. */
+    entries: {
+      type: "array",
+      items: {
+        type: "object",
+        fields: {
+          username: { type: "string" },
+          count: { type: "number" },
+        },
+      },
+    },
+  },
+  /** Sent by the dashboard so overlays hide redemptions by blocked users. */
+  "moderation-blocklist": {
+    /** Comma-separated lowercase usernames; empty when nobody is blocked. */
+    users: { type: "string" },
+  },
+  /** Sent by the dashboard's panic button; overlays stop and stay quiet. */
+  "playback-paused": {
+    paused: { type: "boolean" },
+  },
+} as const satisfies Record<string, EventSchema>;
+
+type FieldValue<F extends FieldSpec> = F extends {
+  type: "array";
+  items: infer I extends FieldSpec;
+}
+  ? FieldValue<I>[]
+  : F extends { type: "object"; fields: infer S extends EventSchema }
+  ? InferPayload<S>
+  : F["type"] extends "string"
+  ? string
+  : F["type"] extends "number"
+  ? number
+  : boolean;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type InferPayload<S extends EventSchema> = Simplify<
+  {
+    [K in keyof S as S[K]["optional"] extends true ? never : K]: FieldValue<
+      S[K]
+    >;
+  } & {
+    [K in keyof S as S[K]["optional"] extends true ? K : never]?: FieldValue<
+      S[K]
+    >;
+  }
+>;
+
+export type ServerEventType = keyof typeof serverEventSchema;
+
+export type ServerEventMap = {
+  [K in ServerEventType]: InferPayload<(typeof serverEventSchema)[K]>;
+};
+
+export type SoundPayload = ServerEventMap["play-sound"];
+export type VideoPayload = ServerEventMap["play-video"];
+export type OverlayStatusPayload = ServerEventMap["overlay-status"];
+export type GoalProgressPayload = ServerEventMap["goal-progress"];
+export type LeaderboardPayload = ServerEventMap["leaderboard"];
+
+export const serverEventTypes = Object.keys(
+  serverEventSchema
+) as ServerEventType[];
+
+export function isServerEventType(name: string): name is ServerEventType {
+  return Object.prototype.hasOwnProperty.call(serverEventSchema, name);
+}
+
+/** Raised when an event's data does not match its schema. */
+export class PayloadError extends Error {
+  readonly eventType: string;
+  readonly issues: string[];
+  readonly raw: string;
+
+  constructor(eventType: string, issues: string[], raw: string) {
+    super(`Invalid ${eventType} payload: ${issues.join("; ")}`);
+    this.name = "PayloadError";
+    this.eventType = eventType;
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: PayloadError };
+
+export function parseServerEvent<K extends ServerEventType>(
+  type: K,
+  raw: string
+): ParseResult<ServerEventMap[K]> {
+  const fail = (...issues: string[]) => ({
+    ok: false as const,
+    error: new PayloadError(type, issues, raw),
+  });
+
+  let data: unknown;
+  if (raw.trim() === "") {
+    data = {};
+  } else {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return fail("data is not valid JSON");
+    }
+  }
+
+  return validateServerEvent(type, data, raw);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const kindOf = (value: unknown) =>
+  Array.isArray(value) ? "array" : typeof value;
+
+/**
+ * Checks the fields of `data` against `schema`, adding what is wrong to
+ * `issues`. Returns a copy, so optional fields sent as `null` can become
+ * absent: payload types promise `undefined`, never `null`.
+ */
+function checkFields(
+  schema: EventSchema,
+  data: Record<string, unknown>,
+  path: string,
+  issues: string[]
+) {
+  const record = { ...data };
+  for (const [key, spec] of Object.entries(schema)) {
+    const value = record[key];
+    if (value === undefined || value === null) {
+      if (!spec.optional) issues.push(`missing "${path}${key}"`);
+      delete record[key];
+    } else {
+      record[key] = checkValue(spec, value, `${path}${key}`, issues);
+    }
+  }
+  return record;
+}
+
+function checkValue(
+  spec: FieldSpec,
+  value: unknown,
+  path: string,
+  issues: string[]
+): unknown {
+  if (spec.type === "array") {
+    if (!Array.isArray(value)) {
+      issues.push(`"${path}" should be an array, got ${kindOf(value)}`);
+      return value;
+    }
+    return value.map((item, index) =>
+      checkValue(spec.items, item, `${path}[${index}]`, issues)
+    );
+  }
+  if (spec.type === "object") {
+    if (!isObject(value)) {
+      issues.push(`"${path}" should be an object, got ${kindOf(value)}`);
+      return value;
+    }
+    return checkFields(spec.fields, value, `${path}.`, issues);
+  }
+  if (typeof value !== spec.type) {
+    issues.push(`"${path}" should be a ${spec.type}, got ${kindOf(value)}`);
+  } else if (spec.type === "string" && !spec.optional && value === "") {
+    issues.push(`"${path}" is empty`);
+  }
+  return value;
+}
+
+/** Checks an already-parsed payload, e.g. one loaded from the event history. */
+export function validateServerEvent<K extends ServerEventType>(
+  type: K,
+  data: unknown,
+  raw: string = JSON.stringify(data) ?? ""
+): ParseResult<ServerEventMap[K]> {
+  const schema: EventSchema = serverEventSchema[type];
+  const fail = (...issues: string[]) => ({
+    ok: false as const,
+    error: new PayloadError(type, issues, raw),
+  });
+
+  if (!isObject(data)) return fail("expected a JSON object");
+
+  const issues: string[] = [];
+  const record = checkFields(schema, data, "", issues);
+  if (issues.length > 0) return fail(...issues);
+  return { ok: true, value: record as ServerEventMap[K] };
+}
@@ -0,0 +1,393 @@
+import { useSyncExternalStore } from "react";
+import {
+  alertAnimations,
+  alertThemes,
+  defaultAlertConfig,
+  type AlertConfig,
+} from "./alerts";
+import {
+  audioChannelNames,
+  type AudioChannel,
+  type AudioChannelName,
+} from "./audio";
+import {
+  defaultRetention,
+  type HistoryRetention,
+} from "./eventHistory";
+import {
+  defaultFeedConfig,
+  defaultOverlayConfig,
+  feedEventTypes,
+  overlayEventTypes,
+  overlayPositions,
+  overlayThemes,
+  type FeedConfig,
+  type OverlayConfig,
+} from "./overlays/overlayConfig";
+import {
+  defaultModerationConfig,
+  normalizeUsername,
+  type ModerationConfig,
+} from "./moderation";
+import type { LeaderboardResets } from "./leaderboard";
+import { overlapPolicies, type OverlapPolicy } from "./playbackQueue";
+import {
+  defaultKeymap,
+  shortcutActions,
+  type Keymap,
+  unbindShortcut,
+  type ShortcutAction,
+} from "./shortcuts";
+import { defaultTtsConfig, type TtsConfig } from "./tts";
+
+export type SoundboardHotkeyAction = "preview" | "broadcast";
+
+/** Everything the broadcaster can tune, persisted in localStorage. */
+export interface Settings {
+  /** Replaces the built-in API base URL when set; needs a reload. */
+  apiBaseOverride: string;
+  channels: Record<AudioChannelName, AudioChannel>;
+  queue: { policy: OverlapPolicy; maxVoices: number };
+  alert: AlertConfig;
+  /** Used to build OBS browser source URLs on the settings page. */
+  overlay: OverlayConfig;
+  /** Feed overlay options, added to the `/overlay/feed` URL. */
+  feed: FeedConfig;
+  historyRetention: HistoryRetention;
+  moderation: ModerationConfig;
+  tts: TtsConfig;
+  /** Warn when the event stream has been quiet this long. */
+  silenceWarningSeconds: number;
+  /** Key combo to sound filename. */
+  soundboardHotkeys: Record<string, string>;
+  soundboardHotkeyAction: SoundboardHotkeyAction;
+  /** Dashboard keyboard shortcuts. */
+  shortcuts: Keymap;
+  /** Leaderboards only count redemptions after these times. */
+  leaderboardResets: LeaderboardResets;
+}
+
+export const defaultSettings: Settings = {
+  apiBaseOverride: "",
+  channels: {
+    stream: { deviceId: "", volume: 0.7, muted: false },
+    // Off by default so a single-device setup does not hear every clip twice.
+    monitor: { deviceId: "", volume: 0.7, muted: true },
+  },
+  queue: { policy: "queue", maxVoices: 3 },
+  alert: defaultAlertConfig,
+  overlay: defaultOverlayConfig,
+  feed: defaultFeedConfig,
+  historyRetention: defaultRetention,
+  moderation: defaultModerationConfig,
+  tts: defaultTtsConfig,
+  silenceWarningSeconds: 120,
+  soundboardHotkeys: {},
+  soundboardHotkeyAction: "preview",
+  shortcuts: defaultKeymap,
+  leaderboardResets: { session: 0, "all-time": 0 },
+};
+
+const SETTINGS_KEY = "hlp.settings";
+const EXPORT_VERSION = 1;
+
+/** Raised when an imported settings file cannot be used. */
+export class SettingsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SettingsImportError";
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Raw =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Copies fields of `raw` that have the same type as in `defaults`. */
+function mergeShallow<T extends object>(defaults: T, raw: unknown): T {
+  if (!isRecord(raw)) return defaults;
+  const result = { ...defaults } as Raw;
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const value = raw[key];
+    if (Array.isArray(fallback)) {
+      if (Array.isArray(value)) result[key] = value;
+    } else if (isRecord(fallback)) {
+      if (isRecord(value)) result[key] = value;
+    } else if (typeof value === typeof fallback) {
+      result[key] = value;
+    }
+  }
+  return result as T;
+}
+
+const pick = <T extends string>(options: readonly T[], value: T, fallback: T) =>
+  options.includes(value) ? value : fallback;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/** Keeps the silence warning between 10 seconds and an hour. */
+export const clampSilenceWarning = (seconds: number) =>
+  clamp(Math.round(seconds), 10, 3600);
+
+const stringRecord = (value: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string"
+    )
+  );
+
+/**
+ * The API base override as stored: empty, `mock`, or an absolute http(s)
+ * URL without a trailing slash. Null for anything else, which would break
+ * every request built from it.
+ */
+export function normalizeApiBase(value: string): string | null {
+  const trimmed = value.trim().replace(/\/+$/, "");
+  if (trimmed === "" || trimmed === "mock") return trimmed;
+  try {
+    const url = new URL(trimmed);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? trimmed
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Fills gaps with defaults and drops values of the wrong type or range. */
+export function normalizeSettings(raw: unknown): Settings {
+  const base = mergeShallow(defaultSettings, raw);
+  const channels = mergeShallow(defaultSettings.channels, base.channels);
+  const channel = (name: AudioChannelName) => {
+    const value = mergeShallow(defaultSettings.channels[name], channels[name]);
+    return { ...value, volume: clamp(value.volume, 0, 1) };
+  };
+  const queue = mergeShallow(defaultSettings.queue, base.queue);
+  const alert = mergeShallow(defaultAlertConfig, base.alert);
+  const overlay = mergeShallow(defaultOverlayConfig, base.overlay);
+  const feed = mergeShallow(defaultFeedConfig, base.feed);
+  const historyRetention = mergeShallow(defaultRetention, base.historyRetention);
+  const moderation = mergeShallow(defaultModerationConfig, base.moderation);
+  const tts = mergeShallow(defaultTtsConfig, base.tts);
+  const shortcuts = mergeShallow(defaultKeymap, base.shortcuts);
+  const resets = mergeShallow(
+    defaultSettings.leaderboardResets,
+    base.leaderboardResets
+  );
+
+  return {
+    ...base,
+    apiBaseOverride: normalizeApiBase(base.apiBaseOverride) ?? "",
+    channels: { stream: channel("stream"), monitor: channel("monitor") },
+    queue: {
+      policy: pick(
+        overlapPolicies.map((option) => option.value),
+        queue.policy,
+        defaultSettings.queue.policy
+      ),
+      maxVoices: clamp(Math.round(queue.maxVoices), 1, 8),
+    },
+    alert: {
+      ...alert,
+      theme: pick(alertThemes, alert.theme, defaultAlertConfig.theme),
+      enter: pick(alertAnimations, alert.enter, defaultAlertConfig.enter),
+      exit: pick(alertAnimations, alert.exit, defaultAlertConfig.exit),
+      position: pick(overlayPositions, alert.position, defaultAlertConfig.position),
+      layout: alert.layout === "queue" ? "queue" : "stack",
+      durationMs: clamp(alert.durationMs, 1000, 60000),
+      maxVisible: clamp(Math.round(alert.maxVisible), 1, 10),
+      images: stringRecord(alert.images),
+    },
+    overlay: {
+      ...overlay,
+      position: pick(overlayPositions, overlay.position, defaultOverlayConfig.position),
+      theme: pick(overlayThemes, overlay.theme, defaultOverlayConfig.theme),
+      events: overlayEventTypes.filter((type) => overlay.events.includes(type)),
+      scale: clamp(overlay.scale, 0.1, 4),
+      volume: clamp(overlay.volume, 0, 1),
+    },
+    feed: {
+      ...feed,
+      maxItems: clamp(Math.round(feed.maxItems), 1, 50),
+      fadeAfterMs: clamp(feed.fadeAfterMs, 0, 600000),
+      types: feedEventTypes.filter((type) => feed.types.includes(type)),
+      icons: stringRecord(feed.icons),
+    },
+    historyRetention: {
+      maxAgeDays: Math.max(0, historyRetention.maxAgeDays),
+      maxEntries: Math.max(100, historyRetention.maxEntries),
+    },
+    moderation: {
+      ...moderation,
+      cooldownSeconds: clamp(moderation.cooldownSeconds, 0, 86400),
+      blocklist: Array.from(
+        new Set(
+          moderation.blocklist
+            .filter((name): name is string => typeof name === "string")
+            .map(normalizeUsername)
+            .filter(Boolean)
+        )
+      ),
+    },
+    tts: {
+      ...tts,
+      rate: clamp(tts.rate, 0.1, 10),
+      pitch: clamp(tts.pitch, 0, 2),
+      volume: clamp(tts.volume, 0, 1),
+      maxMessageLength: clamp(Math.round(tts.maxMessageLength), 10, 500),
+      blockedWords: Array.from(
+        new Set(
+          tts.blockedWords
+            .filter((word): word is string => typeof word === "string")
+            .map((word) => word.trim().toLowerCase())
+            .filter(Boolean)
+        )
+      ),
+    },
+    silenceWarningSeconds: clampSilenceWarning(base.silenceWarningSeconds),
+    soundboardHotkeys: stringRecord(base.soundboardHotkeys),
+    soundboardHotkeyAction:
+      base.soundboardHotkeyAction === "broadcast" ? "broadcast" : "preview",
+    shortcuts: Object.fromEntries(
+      shortcutActions.map((action) => [action, shortcuts[action]])
+    ) as Keymap,
+    leaderboardResets: {
+      session: Math.max(0, resets.session),
+      "all-time": Math.max(0, resets["all-time"]),
+    },
+  };
+}
+
+export function loadSettings(): Settings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? normalizeSettings(JSON.parse(stored)) : defaultSettings;
+  } catch {
+    return defaultSettings;
+  }
+}
+
+let current = loadSettings();
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+export function getSettings() {
+  return current;
+}
+
+export function updateSettings(
+  changes: Partial<Settings> | ((settings: Settings) => Partial<Settings>)
+) {
+  const patch = typeof changes === "function" ? changes(current) : changes;
+  current = { ...current, ...patch };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(current));
+  emit();
+}
+
+export function updateChannel(
+  name: AudioChannelName,
+  changes: Partial<AudioChannel>
+) {
+  updateSettings((settings) => ({
+    channels: {
+      ...settings.channels,
+      [name]: { ...settings.channels[name], ...changes },
+    },
+  }));
+}
+
+export function updateModeration(changes: Partial<ModerationConfig>) {
+  updateSettings((settings) => ({
+    moderation: { ...settings.moderation, ...changes },
+  }));
+}
+
+export function updateTts(changes: Partial<TtsConfig>) {
+  updateSettings((settings) => ({ tts: { ...settings.tts, ...changes } }));
+}
+
+/**
+ * Binds `combo` to a dashboard shortcut; an empty combo unbinds it. A combo
+ * can only do one thing, so any shortcut or soundboard hotkey using it loses
+ * it.
+ */
+export function updateShortcut(action: ShortcutAction, combo: string) {
+  updateSettings((settings) => ({
+    shortcuts: {
+      ...unbindShortcut(settings.shortcuts, combo),
+      [action]: combo,
+    },
+    soundboardHotkeys: Object.fromEntries(
+      Object.entries(settings.soundboardHotkeys).filter(
+        ([bound]) => bound !== combo
+      )
+    ),
+  }));
+}
+
+/** True when no channel would make a sound. */
+export const allChannelsMuted = (settings: Settings) =>
+  audioChannelNames.every((name) => settings.channels[name].muted);
+
+export function resetSettings() {
+  current = defaultSettings;
+  localStorage.removeItem(SETTINGS_KEY);
+  emit();
+}
+
+// Keep several open dashboard tabs in sync.
+window.addEventListener("storage", (e) => {
+  if (e.key !== SETTINGS_KEY) return;
+  current = loadSettings();
+  emit();
+});
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export function useSettings() {
+  return useSyncExternalStore(subscribe, getSettings);
+}
+
+export function exportSettings() {
+  return JSON.stringify(
+    {
+      app: "hlp-broadcaster-suite",
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      settings: current,
+    },
+    null,
+    2
+  );
+}
+
+/** Replaces the current settings with an exported file's contents. */
+export function importSettings(text: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SettingsImportError("The file is not valid JSON");
+  }
+  if (!isRecord(parsed) || parsed.app !== "hlp-broadcaster-suite") {
+    throw new SettingsImportError(
+      "The file is not an HLP Broadcaster Suite settings export"
+    );
+  }
+  if (typeof parsed.version !== "number" || parsed.version > EXPORT_VERSION) {
+    throw new SettingsImportError(
+      "The file was exported by a newer version of the suite"
+    );
+  }
+  const settings = normalizeSettings(parsed.settings);
+  updateSettings(settings);
+  return settings;
+}
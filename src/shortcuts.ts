@@ -0,0 +1,90 @@
+import { useEffect, useRef } from "react";
+import { comboFromEvent, isTypingTarget } from "./hotkeys";
+
+export type ShortcutAction =
+  | "toggle-mute"
+  | "volume-up"
+  | "volume-down"
+  | "skip"
+  | "clear-history"
+  | "panic"
+  | "help";
+
+/** Key combo per action, as `comboFromEvent` writes them; empty is unbound. */
+export type Keymap = Record<ShortcutAction, string>;
+
+export const shortcutActions: ShortcutAction[] = [
+  "toggle-mute",
+  "volume-up",
+  "volume-down",
+  "skip",
+  "clear-history",
+  "panic",
+  "help",
+];
+
+export const shortcutLabels: Record<ShortcutAction, string> = {
+  "toggle-mute": "Mute / unmute",
+  "volume-up": "Volume up",
+  "volume-down": "Volume down",
+  skip: "Skip current sound",
+  "clear-history": "Clear history",
+  panic: "Pause / resume all playback",
+  help: "Show shortcuts",
+};
+
+export const defaultKeymap: Keymap = {
+  "toggle-mute": "KeyM",
+  "volume-up": "Equal",
+  "volume-down": "Minus",
+  skip: "KeyN",
+  "clear-history": "Shift+Delete",
+  panic: "KeyP",
+  help: "Shift+Slash",
+};
+
+/** Volume change per key press. */
+export const VOLUME_STEP = 0.05;
+
+/** The action bound to `combo`, if any. */
+export const actionForCombo = (keymap: Keymap, combo: string) =>
+  shortcutActions.find((action) => keymap[action] === combo) ?? null;
+
+/** `keymap` with `combo` taken off whichever action used it. */
+export const unbindShortcut = (keymap: Keymap, combo: string) =>
+  Object.fromEntries(
+    shortcutActions.map((action) => [
+      action,
+      keymap[action] === combo ? "" : keymap[action],
+    ])
+  ) as Keymap;
+
+const repeatable: ShortcutAction[] = ["volume-up", "volume-down"];
+
+/**
+ * Runs the handler of a bound action on key press. Key presses in text
+ * fields or already handled elsewhere, such as a soundboard hotkey being
+ * recorded, are left alone, and only volume changes repeat while a key is
+ * held.
+ */
+export function useShortcuts(
+  keymap: Keymap,
+  handlers: Record<ShortcutAction, () => void>
+) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTypingTarget(e.target)) return;
+      const combo = comboFromEvent(e);
+      const action = combo && actionForCombo(keymap, combo);
+      if (!action) return;
+      e.preventDefault();
+      if (e.repeat && !repeatable.includes(action)) return;
+      handlersRef.current[action]();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [keymap]);
+}
@@ -0,0 +1,84 @@
+import { act, waitFor } from "@testing-library/react";
+import { vi } from "vitest";
+import type { Session } from "../auth";
+import { MockEventSource } from "../mock";
+import type { ServerEventMap, ServerEventType } from "../serverEvents";
+
+export interface ApiCall {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+type RouteHandler = (body: unknown) => unknown;
+
+const defaultRoutes: Record<string, RouteHandler> = {
+  "GET /health": () => ({ ok: true }),
+  "GET /auth/stream-token": () => ({ token: "test-stream-token" }),
+  "GET /sounds": () => [],
+  "GET /videos": () => [],
+  "POST /broadcast": () => ({}),
+  "POST /overlay/status": () => ({}),
+  "POST /redemptions/decision": () => ({}),
+};
+
+/**
+ * Answers API requests from `routes`, keyed by `"<METHOD> <path>"`, and
+ * records every call. Anything unrouted gets a 404, so no test touches the
+ * network.
+ */
+export function mockApi(routes: Record<string, RouteHandler> = {}) {
+  const calls: ApiCall[] = [];
+  const handlers = { ...defaultRoutes, ...routes };
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      const method = init.method ?? "GET";
+      const body =
+        typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+      calls.push({ method, path: url.pathname, body });
+      const handler = handlers[`${method} ${url.pathname}`];
+      return handler
+        ? new Response(JSON.stringify(handler(body)))
+        : new Response("Not found", { status: 404 });
+    })
+  );
+  return calls;
+}
+
+/** Bodies of the `/broadcast` calls that sent `event`, oldest first. */
+export const broadcasts = (calls: ApiCall[], event: ServerEventType) =>
+  calls
+    .filter((call) => call.path === "/broadcast")
+    .map((call) => call.body as { event: string; data: unknown })
+    .filter((body) => body.event === event);
+
+/** Waits for the client under test to create its EventSource, then opens it. */
+export async function openStream() {
+  const source = await waitFor(() => {
+    const latest = [...MockEventSource.instances].at(-1);
+    if (!latest) throw new Error("No EventSource was created");
+    return latest;
+  });
+  act(() => source.open());
+  return source;
+}
+
+export function emit<K extends ServerEventType>(
+  source: MockEventSource,
+  type: K,
+  data: ServerEventMap[K],
+  lastEventId?: string
+) {
+  act(() => source.emit(type, data, lastEventId));
+}
+
+export const testSession: Session = {
+  token: "test-session-token",
+  expiresAt: "2100-01-01T00:00:00.000Z",
+  user: { id: "1001", login: "tester", displayName: "Tester" },
+  channels: [{ id: "1001", login: "tester", displayName: "Tester" }],
+  channelId: "1001",
+  overlayTokens: {},
+};
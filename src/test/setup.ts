@@ -0,0 +1,34 @@
+import "fake-indexeddb/auto";
+import { cleanup } from "@testing-library/react";
+import { afterEach, beforeEach, vi } from "vitest";
+import { clearEvents } from "../eventHistory";
+import { getGoals, removeGoal } from "../goals";
+import { MockEventSource } from "../mock";
+import { resetSettings } from "../settings";
+import { mockApi } from "./helpers";
+
+// jsdom cannot play media; every clip starts and nothing else happens until
+// a test fires `ended` or `error` itself.
+HTMLMediaElement.prototype.play = () => Promise.resolve();
+HTMLMediaElement.prototype.pause = () => undefined;
+HTMLMediaElement.prototype.load = () => undefined;
+
+// Tests open streams themselves, so they can act before `connected`.
+MockEventSource.autoOpen = false;
+
+beforeEach(() => {
+  vi.stubGlobal("EventSource", MockEventSource);
+  mockApi();
+});
+
+afterEach(async () => {
+  cleanup();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  [...MockEventSource.instances].forEach((source) => source.close());
+  resetSettings();
+  getGoals().forEach((goal) => removeGoal(goal.id));
+  localStorage.clear();
+  await clearEvents();
+});
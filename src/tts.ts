@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import type { PlaybackHandle } from "./playbackQueue";
+import type { SoundPayload } from "./serverEvents";
+
+export interface TtsConfig {
+  enabled: boolean;
+  /** Text with `{user}`, `{reward}` and `{message}` placeholders. */
+  template: string;
+  /** Read the viewer's message when the redemption carries one. */
+  readMessages: boolean;
+  /** `SpeechSynthesisVoice.voiceURI`; empty means the browser default. */
+  voiceURI: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+  /** Messages are cut to this many characters. */
+  maxMessageLength: number;
+  filterProfanity: boolean;
+  /** Extra words bleeped on top of the built-in list, lowercase. */
+  blockedWords: string[];
+}
+
+export const defaultTtsConfig: TtsConfig = {
+  enabled: false,
+  template: "{user} redeemed {reward}. {message}",
+  readMessages: true,
+  voiceURI: "",
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+  maxMessageLength: 200,
+  filterProfanity: true,
+  blockedWords: [],
+};
+
+export const ttsSupported =
+  typeof window !== "undefined" && "speechSynthesis" in window;
+
+// Deliberately short; streamers add their own words on the settings page.
+const builtInProfanity = [
+  "ass",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bollocks",
+  "cock",
+  "cunt",
+  "dick",
+  "fag",
+  "faggot",
+  "fuck",
+  "fucker",
+  "fucking",
+  "motherfucker",
+  "nigga",
+  "nigger",
+  "piss",
+  "pussy",
+  "retard",
+  "shit",
+  "slut",
+  "twat",
+  "whore",
+];
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Replaces listed words with "bleep", ignoring case and repeated letters. */
+export function bleepProfanity(text: string, extraWords: string[] = []) {
+  const words = [...builtInProfanity, ...extraWords]
+    .map((word) => word.trim().toLowerCase())
+    .filter(Boolean);
+  if (words.length === 0) return text;
+  const pattern = new RegExp(
+    `\\b(${words
+      .map((word) => [...word].map((c) => `${escapeRegExp(c)}+`).join(""))
+      .join("|")})\\b`,
+    "gi"
+  );
+  return text.replace(pattern, "bleep");
+}
+
+/** Cuts `text` at a word boundary so it fits in `maxLength` characters. */
+export function truncateMessage(text: string, maxLength: number) {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  if (trimmed.length <= maxLength) return trimmed;
+  const cut = trimmed.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut;
+}
+
+/** Links are read out character by character, so they are dropped. */
+const stripLinks = (text: string) =>
+  text.replace(/\b(?:https?:\/\/|www\.)\S+/gi, "a link");
+
+/**
+ * The announcement for a redemption, or null when there is nothing to say.
+ * Only the viewer's message is filtered; usernames and reward names come
+ * from Twitch and the streamer.
+ */
+export function renderAnnouncement(
+  payload: Pick<SoundPayload, "username" | "rewardName" | "message">,
+  config: TtsConfig
+) {
+  if (!payload.username || !payload.rewardName) return null;
+  let message = "";
+  if (config.readMessages && payload.message) {
+    message = truncateMessage(
+      stripLinks(payload.message),
+      config.maxMessageLength
+    );
+    if (config.filterProfanity) {
+      message = bleepProfanity(message, config.blockedWords);
+    }
+  }
+  const text = config.template
+    .replace(/\{(user|username)\}/g, payload.username)
+    .replace(/\{(reward|rewardName)\}/g, payload.rewardName)
+    .replace(/\{message\}/g, message)
+    .replace(/\s+/g, " ")
+    .trim();
+  return text || null;
+}
+
+/**
+ * Speaks `text` through the browser's speech synthesis. The browser plays
+ * it on the system default output; it cannot be routed to a channel.
+ */
+export function speak(
+  text: string,
+  config: TtsConfig,
+  onError?: (message: string) => void
+): PlaybackHandle {
+  let done: () => void = () => undefined;
+  const finished = new Promise<void>((resolve) => {
+    done = resolve;
+  });
+  if (!ttsSupported) {
+    onError?.("Speech synthesis is not available in this browser");
+    done();
+    return { stop: () => undefined, finished };
+  }
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = speechSynthesis
+    .getVoices()
+    .find((candidate) => candidate.voiceURI === config.voiceURI);
+  if (voice) utterance.voice = voice;
+  utterance.rate = config.rate;
+  utterance.pitch = config.pitch;
+  utterance.volume = config.volume;
+
+  let settled = false;
+  const settle = () => {
+    if (settled) return;
+    settled = true;
+    done();
+  };
+  utterance.onend = settle;
+  utterance.onerror = (e) => {
+    // Cancelling is how `stop` works, not a failure.
+    if (e.error !== "canceled" && e.error !== "interrupted") {
+      onError?.(e.error);
+    }
+    settle();
+  };
+  speechSynthesis.speak(utterance);
+
+  return {
+    stop: () => {
+      if (settled) return;
+      speechSynthesis.cancel();
+      settle();
+    },
+    finished,
+  };
+}
+
+/** Installed voices; most browsers load them asynchronously. */
+export function useSpeechVoices() {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    ttsSupported ? speechSynthesis.getVoices() : []
+  );
+
+  useEffect(() => {
+    if (!ttsSupported) return;
+    const update = () => setVoices(speechSynthesis.getVoices());
+    speechSynthesis.addEventListener("voiceschanged", update);
+    return () => speechSynthesis.removeEventListener("voiceschanged", update);
+  }, []);
+
+  return voices;
+}
@@ -1,5 +1,5 @@
 import react from "@vitejs/plugin-react";
-import { defineConfig } from "vite";
+import { defineConfig } from "vitest/config";
 
 // https://vite.dev/config/
 export default defineConfig({
@@ -8,4 +8,8 @@ export default defineConfig({
     host: true,
     port: 5173,
   },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["src/test/setup.ts"],
+  },
 });